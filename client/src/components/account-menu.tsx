@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, LogIn, LogOut, UserCircle } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import { insertUserSchema, type InsertUser } from "@shared/schema";
+
+function CredentialsForm({
+  mode,
+  onDone,
+}: {
+  mode: "login" | "register";
+  onDone: () => void;
+}) {
+  const { loginMutation, registerMutation } = useAuth();
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(insertUserSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const onSubmit = (data: InsertUser) => {
+    mutation.mutate(data, { onSuccess: onDone });
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 pt-2">
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-username`}>Username</Label>
+        <Input
+          id={`${mode}-username`}
+          autoComplete="username"
+          {...form.register("username")}
+          data-testid={`input-${mode}-username`}
+        />
+        {form.formState.errors.username && (
+          <p className="text-xs text-destructive">
+            {form.formState.errors.username.message}
+          </p>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-password`}>Password</Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          {...form.register("password")}
+          data-testid={`input-${mode}-password`}
+        />
+        {form.formState.errors.password && (
+          <p className="text-xs text-destructive">
+            {form.formState.errors.password.message}
+          </p>
+        )}
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={mutation.isPending}
+        data-testid={`button-${mode}`}
+      >
+        {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {mode === "login" ? "Sign in" : "Create account"}
+      </Button>
+    </form>
+  );
+}
+
+// Sign-in dialog when signed out, account dropdown when signed in
+export function AccountMenu() {
+  const { user, isLoading, logoutMutation } = useAuth();
+  const [open, setOpen] = useState(false);
+
+  if (isLoading) return null;
+
+  if (user) {
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" data-testid="button-account">
+            <UserCircle className="mr-2 h-4 w-4" />
+            {user.username}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Signed in as {user.username}</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => logoutMutation.mutate()}
+            data-testid="button-logout"
+          >
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-sign-in">
+          <LogIn className="mr-2 h-4 w-4" />
+          Sign in
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Your account</DialogTitle>
+          <DialogDescription>
+            Sign in to save favorite teams and players.
+          </DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="login">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="login">Sign in</TabsTrigger>
+            <TabsTrigger value="register">Register</TabsTrigger>
+          </TabsList>
+          <TabsContent value="login">
+            <CredentialsForm mode="login" onDone={() => setOpen(false)} />
+          </TabsContent>
+          <TabsContent value="register">
+            <CredentialsForm mode="register" onDone={() => setOpen(false)} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,231 @@
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ArrowLeft, Info } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { cn } from "@/lib/utils";
+import type { BoxScore, BoxScoreStatGroup } from "@shared/schema";
+
+function LineScore({ boxScore }: { boxScore: BoxScore }) {
+  return (
+    <Table data-testid="table-line-score">
+      <TableHeader>
+        <TableRow>
+          <TableHead>Team</TableHead>
+          {boxScore.periods.map((period) => (
+            <TableHead key={period} className="text-center">
+              {period}
+            </TableHead>
+          ))}
+          <TableHead className="text-center font-semibold">T</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {boxScore.teams.map((team) => (
+          <TableRow key={team.abbreviation}>
+            <TableCell className="font-medium">{team.name}</TableCell>
+            {boxScore.periods.map((period, i) => (
+              <TableCell key={period} className="text-center">
+                {team.periodScores[i] ?? "-"}
+              </TableCell>
+            ))}
+            <TableCell className="text-center font-semibold">
+              {team.score}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function StatGroupTable({ group }: { group: BoxScoreStatGroup }) {
+  return (
+    <div className="overflow-x-auto">
+      {group.name && (
+        <h4 className="font-semibold text-sm uppercase tracking-wide text-muted-foreground mb-2">
+          {group.name}
+        </h4>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="min-w-40">Player</TableHead>
+            {group.labels.map((label, i) => (
+              <TableHead key={`${label}-${i}`} className="text-center">
+                {label}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {group.players.map((player) => (
+            <TableRow
+              key={player.playerId || player.name}
+              data-testid={`row-player-${player.playerId}`}
+            >
+              <TableCell className={cn(player.starter && "font-medium")}>
+                {player.name}
+                {player.position && (
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {player.position}
+                  </span>
+                )}
+              </TableCell>
+              {player.didNotPlay ? (
+                <TableCell
+                  colSpan={Math.max(group.labels.length, 1)}
+                  className="text-muted-foreground text-xs"
+                >
+                  {player.didNotPlay}
+                </TableCell>
+              ) : (
+                group.labels.map((label, i) => (
+                  <TableCell key={`${label}-${i}`} className="text-center">
+                    {player.stats[i] ?? ""}
+                  </TableCell>
+                ))
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+        {group.totals.length > 0 && (
+          <TableFooter>
+            <TableRow>
+              <TableCell className="font-semibold">Totals</TableCell>
+              {group.labels.map((label, i) => (
+                <TableCell key={`${label}-${i}`} className="text-center">
+                  {group.totals[i] ?? ""}
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableFooter>
+        )}
+      </Table>
+    </div>
+  );
+}
+
+function BoxScoreSkeleton() {
+  return (
+    <div className="space-y-6">
+      <Skeleton className="h-8 w-64" />
+      <Skeleton className="h-32 w-full rounded-lg" />
+      <Skeleton className="h-64 w-full rounded-lg" />
+    </div>
+  );
+}
+
+export default function BoxScorePage() {
+  const { league, espnGameId } = useParams<{
+    league: string;
+    espnGameId: string;
+  }>();
+
+  const { data: boxScore, isLoading, error } = useQuery<BoxScore>({
+    queryKey: ["/api/boxscore", league, espnGameId],
+  });
+
+  const [away, home] = boxScore?.teams ?? [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="max-w-5xl mx-auto px-4 md:px-6 h-16 flex items-center justify-between gap-4">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/" data-testid="link-back">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to search
+            </Link>
+          </Button>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 md:px-6 py-8 space-y-6">
+        {isLoading ? (
+          <BoxScoreSkeleton />
+        ) : error || !boxScore ? (
+          <div className="flex items-start gap-3 p-3 rounded-lg bg-accent/50 text-sm">
+            <Info className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+            <p className="text-muted-foreground">
+              This box score isn't available yet. Try the external links from
+              the search results instead.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="text-center">
+              <div className="flex items-center justify-center gap-2 mb-2">
+                <Badge variant="outline" className="text-xs uppercase">
+                  {boxScore.league}
+                </Badge>
+                <Badge variant="secondary" className="text-xs">
+                  {boxScore.status}
+                </Badge>
+              </div>
+              <h1
+                className="text-2xl md:text-3xl font-bold"
+                data-testid="text-box-score-matchup"
+              >
+                {away?.name} {away?.score} @ {home?.name} {home?.score}
+              </h1>
+              {boxScore.gameDate && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  {format(parseISO(boxScore.gameDate), "PPPP")}
+                </p>
+              )}
+            </div>
+
+            <Card>
+              <CardContent className="pt-6 overflow-x-auto">
+                <LineScore boxScore={boxScore} />
+              </CardContent>
+            </Card>
+
+            {boxScore.playerStats.map((teamStats) => {
+              const team = boxScore.teams.find(
+                (t) => t.abbreviation === teamStats.teamAbbreviation,
+              );
+              return (
+                <Card key={teamStats.teamAbbreviation}>
+                  <CardHeader className="pb-4">
+                    <CardTitle className="text-lg">
+                      {team?.name || teamStats.teamAbbreviation}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    {teamStats.groups.map((group, i) => (
+                      <StatGroupTable key={`${group.name}-${i}`} group={group} />
+                    ))}
+                    {team && team.totals.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {team.totals
+                          .map((stat) => `${stat.label} ${stat.value}`)
+                          .join(" · ")}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
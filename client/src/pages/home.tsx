@@ -1,8 +1,9 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
-import { format } from "date-fns";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow, parseISO, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
 import {
   Search,
   Calendar,
@@ -14,7 +15,14 @@ import {
   Trophy,
   Loader2,
   Info,
+  Swords,
+  Table2,
+  Download,
+  History,
+  Star,
+  X,
 } from "lucide-react";
+import { Link } from "wouter";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -27,16 +35,38 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Switch } from "@/components/ui/switch";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { AccountMenu } from "@/components/account-menu";
+import { useAuth } from "@/hooks/use-auth";
 import { cn } from "@/lib/utils";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
   searchQuerySchema,
   type SearchQuery,
   type SearchResult,
+  type SearchResponse,
+  type PlayerCandidate,
+  type PlayerCandidatesResult,
+  type TeamCandidate,
+  type TeamCandidatesResult,
+  type GameResult,
+  type PlayerAppearance,
   type BoxScoreLink,
+  type SearchHistoryEntry,
+  type Favorite,
+  type FavoriteKind,
+  type FavoriteSearchResult,
+  type InsertFavorite,
 } from "@shared/schema";
 
 function LinkCard({
@@ -138,6 +168,244 @@ function LinkCard({
   );
 }
 
+function LinkSections({
+  links,
+  onCopy,
+}: {
+  links: BoxScoreLink[];
+  onCopy: (url: string) => void;
+}) {
+  const officialLinks = links.filter((l) => l.providerType === "official");
+  const thirdPartyLinks = links.filter((l) => l.providerType === "third-party");
+
+  return (
+    <>
+      {officialLinks.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 mb-3">
+            <Trophy className="h-4 w-4 text-muted-foreground" />
+            <h3 className="font-semibold text-sm uppercase tracking-wide text-muted-foreground">
+              Official League Sites
+            </h3>
+            <Badge variant="secondary" className="text-xs">
+              {officialLinks.length}
+            </Badge>
+          </div>
+          <div className="space-y-2">
+            {officialLinks.map((link) => (
+              <LinkCard key={link.id} link={link} onCopy={onCopy} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {thirdPartyLinks.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 mb-3">
+            <ExternalLink className="h-4 w-4 text-muted-foreground" />
+            <h3 className="font-semibold text-sm uppercase tracking-wide text-muted-foreground">
+              Third-Party Providers
+            </h3>
+            <Badge variant="secondary" className="text-xs">
+              {thirdPartyLinks.length}
+            </Badge>
+          </div>
+          <div className="space-y-2">
+            {thirdPartyLinks.map((link) => (
+              <LinkCard key={link.id} link={link} onCopy={onCopy} />
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+function PlayerAppearanceNote({
+  appearance,
+}: {
+  appearance: PlayerAppearance;
+}) {
+  const played = appearance.status === "played";
+
+  return (
+    <div
+      className={cn(
+        "flex items-start gap-3 p-3 rounded-lg text-sm border",
+        played
+          ? "bg-green-500/10 border-green-500/20"
+          : "bg-amber-500/10 border-amber-500/20",
+      )}
+      data-testid={`text-player-appearance-${appearance.status}`}
+    >
+      {played ? (
+        <Check className="h-4 w-4 text-green-600 dark:text-green-400 flex-shrink-0 mt-0.5" />
+      ) : (
+        <Info className="h-4 w-4 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" />
+      )}
+      <div className="min-w-0">
+        <p
+          className={
+            played
+              ? "text-green-700 dark:text-green-300"
+              : "text-amber-700 dark:text-amber-300"
+          }
+        >
+          {appearance.status === "played" &&
+            `${appearance.playerName} played${appearance.teamName ? ` for ${appearance.teamName}` : ""}.`}
+          {appearance.status === "inactive" &&
+            `${appearance.playerName} did not play${appearance.reason ? ` (${appearance.reason})` : ""}.`}
+          {appearance.status === "not-on-roster" &&
+            `${appearance.playerName} was not on either roster for this game.`}
+          {appearance.status === "unknown" &&
+            `${appearance.playerName} has no stats in this game's box score, so it can't tell whether they played.`}
+        </p>
+        {appearance.statLine && appearance.statLine.length > 0 && (
+          <p className="text-xs text-muted-foreground mt-1">
+            {appearance.statLine
+              .map((stat) => `${stat.label} ${stat.value}`)
+              .join(" · ")}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const EXPORT_FORMATS = [
+  { id: "csv", label: "CSV" },
+  { id: "json", label: "JSON" },
+  { id: "xlsx", label: "Excel (XLSX)" },
+];
+
+function GameSection({
+  game,
+  onCopy,
+}: {
+  game: GameResult;
+  onCopy: (url: string) => void;
+}) {
+  return (
+    <div
+      className="space-y-4 pt-4 border-t border-border"
+      data-testid={`game-section-${game.espnGameId}`}
+    >
+      <div className="flex items-center gap-2 flex-wrap">
+        <Badge variant="outline" className="text-xs uppercase">
+          {game.league}
+        </Badge>
+        <h3 className="font-semibold" data-testid={`text-matchup-${game.espnGameId}`}>
+          {game.awayTeam} @ {game.homeTeam}
+        </h3>
+        {game.gameNumber && (
+          <Badge variant="secondary" className="text-xs">
+            Game {game.gameNumber}
+          </Badge>
+        )}
+        <Button variant="outline" size="sm" className="ml-auto" asChild>
+          <Link
+            href={`/boxscore/${game.league.toLowerCase()}/${game.espnGameId}`}
+            data-testid={`link-box-score-${game.espnGameId}`}
+          >
+            <Table2 className="mr-2 h-4 w-4" />
+            View box score
+          </Link>
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              data-testid={`button-export-${game.espnGameId}`}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Download
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {EXPORT_FORMATS.map((exportFormat) => (
+              <DropdownMenuItem key={exportFormat.id} asChild>
+                <a
+                  href={`/api/boxscore/${game.league.toLowerCase()}/${game.espnGameId}/export/${exportFormat.id}`}
+                  download
+                  data-testid={`link-export-${exportFormat.id}-${game.espnGameId}`}
+                >
+                  {exportFormat.label}
+                </a>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      {game.playerAppearance && (
+        <PlayerAppearanceNote appearance={game.playerAppearance} />
+      )}
+      <LinkSections links={game.links} onCopy={onCopy} />
+    </div>
+  );
+}
+
+// Saves the searched player (pinned to the chosen athlete) or team as a favorite
+function SaveFavoriteButton({ query }: { query: SearchQuery }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: favorites } = useQuery<Favorite[]>({
+    queryKey: ["/api/favorites"],
+    enabled: Boolean(user),
+  });
+
+  const favorite: InsertFavorite = query.playerName
+    ? {
+        kind: "player",
+        name: query.playerName,
+        playerId: query.playerId,
+        playerLeague: query.playerLeague,
+      }
+    : { kind: "team", name: query.teamName };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/favorites", favorite);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/favorites"] });
+      toast({
+        title: "Favorite saved",
+        description: `${favorite.name} was added to your favorites.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't save favorite",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const alreadySaved = favorites?.some(
+    (f) =>
+      f.kind === favorite.kind &&
+      f.name.toLowerCase() === favorite.name.toLowerCase(),
+  );
+
+  if (!user || !favorite.name || alreadySaved) return null;
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="mt-2"
+      onClick={() => saveMutation.mutate()}
+      disabled={saveMutation.isPending}
+      data-testid="button-save-favorite"
+    >
+      <Star className="mr-2 h-4 w-4" />
+      Save {favorite.kind} to favorites
+    </Button>
+  );
+}
+
 function ResultsSection({
   result,
   onCopy,
@@ -145,11 +413,16 @@ function ResultsSection({
   result: SearchResult;
   onCopy: (url: string) => void;
 }) {
-  const officialLinks = result.links.filter(
-    (l) => l.providerType === "official",
-  );
-  const thirdPartyLinks = result.links.filter(
-    (l) => l.providerType === "third-party",
+  const gameCount = result.games.length;
+
+  // Games arrive in date order; group them so multi-day searches read by date
+  const gamesByDate = Array.from(
+    result.games
+      .reduce((groups, game) => {
+        groups.set(game.gameDate, [...(groups.get(game.gameDate) || []), game]);
+        return groups;
+      }, new Map<string, GameResult[]>())
+      .entries(),
   );
 
   return (
@@ -163,6 +436,8 @@ function ResultsSection({
           {result.matchInfo.playerName && result.matchInfo.teamName
             ? `${result.matchInfo.playerName} - ${result.matchInfo.teamName}`
             : result.matchInfo.teamName || result.matchInfo.playerName}
+          {result.matchInfo.opponentName &&
+            ` vs ${result.matchInfo.opponentName}`}
         </h2>
         <p
           className="text-sm text-muted-foreground mt-1"
@@ -170,13 +445,32 @@ function ResultsSection({
         >
           {result.matchInfo.formattedDate}
         </p>
+        {result.matchInfo.correctedFrom && (
+          <p
+            className="text-xs text-muted-foreground mt-2"
+            data-testid="text-corrected-from"
+          >
+            Searched for "{result.matchInfo.correctedFrom}"
+          </p>
+        )}
+        {result.matchInfo.teamInference && (
+          <p
+            className="text-xs text-muted-foreground mt-2"
+            data-testid="text-team-inference"
+          >
+            {result.matchInfo.teamInference.reason}
+          </p>
+        )}
+        <SaveFavoriteButton query={result.query} />
       </div>
 
-      {result.links.some((l) => l.linkType === "direct") ? (
+      {gameCount > 0 ? (
         <div className="flex items-start gap-3 p-3 rounded-lg bg-green-500/10 text-sm border border-green-500/20">
           <Check className="h-4 w-4 text-green-600 dark:text-green-400 flex-shrink-0 mt-0.5" />
           <p className="text-green-700 dark:text-green-300">
-            Game found! Direct links to box scores are available below.
+            {gameCount === 1
+              ? "Game found! Direct links to box scores are available below."
+              : `${gameCount} games found! Direct links to each box score are available below.`}
           </p>
         </div>
       ) : (
@@ -189,47 +483,403 @@ function ResultsSection({
         </div>
       )}
 
-      {officialLinks.length > 0 && (
-        <div>
-          <div className="flex items-center gap-2 mb-3">
-            <Trophy className="h-4 w-4 text-muted-foreground" />
-            <h3 className="font-semibold text-sm uppercase tracking-wide text-muted-foreground">
-              Official League Sites
+      {gamesByDate.map(([gameDate, games]) => (
+        <div
+          key={gameDate}
+          className="space-y-4"
+          data-testid={`date-group-${gameDate}`}
+        >
+          {gamesByDate.length > 1 && (
+            <h3 className="font-semibold text-sm uppercase tracking-wide text-muted-foreground pt-2">
+              {format(parseISO(gameDate), "EEEE, MMMM d, yyyy")}
             </h3>
-            <Badge variant="secondary" className="text-xs">
-              {officialLinks.length}
-            </Badge>
-          </div>
-          <div className="space-y-2">
-            {officialLinks.map((link) => (
-              <LinkCard key={link.id} link={link} onCopy={onCopy} />
-            ))}
-          </div>
+          )}
+          {games.map((game) => (
+            <GameSection key={game.espnGameId} game={game} onCopy={onCopy} />
+          ))}
         </div>
-      )}
+      ))}
 
-      {thirdPartyLinks.length > 0 && (
-        <div>
-          <div className="flex items-center gap-2 mb-3">
-            <ExternalLink className="h-4 w-4 text-muted-foreground" />
-            <h3 className="font-semibold text-sm uppercase tracking-wide text-muted-foreground">
-              Third-Party Providers
-            </h3>
-            <Badge variant="secondary" className="text-xs">
-              {thirdPartyLinks.length}
+      <LinkSections links={result.links} onCopy={onCopy} />
+    </div>
+  );
+}
+
+function PlayerCandidatesSection({
+  result,
+  onSelect,
+}: {
+  result: PlayerCandidatesResult;
+  onSelect: (candidate: PlayerCandidate) => void;
+}) {
+  return (
+    <div className="space-y-6 animate-in fade-in duration-300">
+      <div className="text-center pb-4 border-b border-border">
+        <p className="text-sm text-muted-foreground">
+          Several players match
+        </p>
+        <h2
+          className="text-xl font-semibold mt-1"
+          data-testid="text-candidates-query"
+        >
+          {result.query.playerName}
+        </h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Pick the right player to generate links.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {result.candidates.map((candidate) => (
+          <button
+            key={`${candidate.league}-${candidate.playerId}`}
+            type="button"
+            onClick={() => onSelect(candidate)}
+            className="w-full flex items-center gap-3 p-4 rounded-lg bg-muted/50 text-left hover-elevate active-elevate-2"
+            data-testid={`button-candidate-${candidate.playerId}`}
+          >
+            <Avatar className="h-10 w-10">
+              {candidate.headshotUrl && (
+                <AvatarImage src={candidate.headshotUrl} alt={candidate.name} />
+              )}
+              <AvatarFallback>
+                <User className="h-4 w-4 text-muted-foreground" />
+              </AvatarFallback>
+            </Avatar>
+            <div className="min-w-0 flex-1">
+              <p className="font-medium text-sm truncate">{candidate.name}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {[candidate.position, candidate.teamName || "No current team"]
+                  .filter(Boolean)
+                  .join(" - ")}
+              </p>
+            </div>
+            <Badge variant="outline" className="text-xs uppercase">
+              {candidate.league}
             </Badge>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TeamCandidatesSection({
+  result,
+  onSelect,
+}: {
+  result: TeamCandidatesResult;
+  onSelect: (candidate: TeamCandidate) => void;
+}) {
+  return (
+    <div className="space-y-6 animate-in fade-in duration-300">
+      <div className="text-center pb-4 border-b border-border">
+        <p className="text-sm text-muted-foreground">
+          No team is called
+        </p>
+        <h2
+          className="text-xl font-semibold mt-1"
+          data-testid="text-team-candidates-query"
+        >
+          {result.query[result.field]}
+        </h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Did you mean one of these teams?
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {result.candidates.map((candidate) => (
+          <button
+            key={candidate.teamId}
+            type="button"
+            onClick={() => onSelect(candidate)}
+            className="w-full flex items-center gap-3 p-4 rounded-lg bg-muted/50 text-left hover-elevate active-elevate-2"
+            data-testid={`button-team-candidate-${candidate.teamId}`}
+          >
+            <Users className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+            <div className="min-w-0 flex-1">
+              <p className="font-medium text-sm truncate">{candidate.name}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {`Matched "${candidate.matchedName}" - ${candidate.confidence}% confident`}
+              </p>
+            </div>
+            <Badge variant="outline" className="text-xs uppercase">
+              {candidate.league}
+            </Badge>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const FAVORITE_KINDS: FavoriteKind[] = ["team", "player"];
+
+function FavoritesSection({
+  onSearch,
+  onSearchAll,
+  isSearchingAll,
+}: {
+  onSearch: (favorite: Favorite) => void;
+  onSearchAll: () => void;
+  isSearchingAll: boolean;
+}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<FavoriteKind>("team");
+  const { data: favorites } = useQuery<Favorite[]>({
+    queryKey: ["/api/favorites"],
+    enabled: Boolean(user),
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (favorite: InsertFavorite) => {
+      await apiRequest("POST", "/api/favorites", favorite);
+    },
+    onSuccess: () => {
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/favorites"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't save favorite",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/favorites/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/favorites"] });
+    },
+  });
+
+  if (!user) return null;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    addMutation.mutate({ kind, name: name.trim(), playerId: "", playerLeague: "" });
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Star className="h-5 w-5 text-primary" />
+            Favorites
+          </CardTitle>
+          {favorites && favorites.length > 0 && (
+            <Button
+              size="sm"
+              onClick={onSearchAll}
+              disabled={isSearchingAll}
+              data-testid="button-favorites-yesterday"
+            >
+              {isSearchingAll ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Calendar className="mr-2 h-4 w-4" />
+              )}
+              Yesterday's games
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {favorites && favorites.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {favorites.map((favorite) => (
+              <div
+                key={favorite.id}
+                className="flex items-center rounded-full bg-muted/50 text-sm"
+                data-testid={`favorite-${favorite.id}`}
+              >
+                <button
+                  type="button"
+                  onClick={() => onSearch(favorite)}
+                  className="flex items-center gap-2 pl-3 pr-1 py-1 rounded-l-full hover-elevate"
+                  title={`Search yesterday's game for ${favorite.name}`}
+                >
+                  {favorite.kind === "player" ? (
+                    <User className="h-3.5 w-3.5 text-muted-foreground" />
+                  ) : (
+                    <Users className="h-3.5 w-3.5 text-muted-foreground" />
+                  )}
+                  {favorite.name}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeMutation.mutate(favorite.id)}
+                  className="p-1.5 rounded-r-full hover-elevate"
+                  aria-label={`Remove ${favorite.name}`}
+                  data-testid={`button-remove-favorite-${favorite.id}`}
+                >
+                  <X className="h-3.5 w-3.5 text-muted-foreground" />
+                </button>
+              </div>
+            ))}
           </div>
-          <div className="space-y-2">
-            {thirdPartyLinks.map((link) => (
-              <LinkCard key={link.id} link={link} onCopy={onCopy} />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Save the teams and players you follow to pull yesterday's box scores
+            in one click.
+          </p>
+        )}
+
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <div className="flex rounded-md border border-input">
+            {FAVORITE_KINDS.map((k) => (
+              <Button
+                key={k}
+                type="button"
+                variant={kind === k ? "secondary" : "ghost"}
+                size="sm"
+                className="capitalize"
+                onClick={() => setKind(k)}
+                data-testid={`button-favorite-kind-${k}`}
+              >
+                {k}
+              </Button>
             ))}
           </div>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={kind === "team" ? "(e.g., Boston Celtics)" : "(e.g., Aaron Judge)"}
+            data-testid="input-favorite-name"
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            size="sm"
+            disabled={addMutation.isPending || !name.trim()}
+            data-testid="button-add-favorite"
+          >
+            Add
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function FavoriteResultsSection({
+  results,
+  onCopy,
+  onSelectPlayer,
+  onSelectTeam,
+}: {
+  results: FavoriteSearchResult[];
+  onCopy: (url: string) => void;
+  onSelectPlayer: (query: SearchQuery, candidate: PlayerCandidate) => void;
+  onSelectTeam: (result: TeamCandidatesResult, candidate: TeamCandidate) => void;
+}) {
+  return (
+    <div className="space-y-10">
+      {results.map(({ favorite, response }) => (
+        <div key={favorite.id} data-testid={`favorite-result-${favorite.id}`}>
+          {response.type === "player-candidates" ? (
+            <PlayerCandidatesSection
+              result={response}
+              onSelect={(candidate) => onSelectPlayer(response.query, candidate)}
+            />
+          ) : response.type === "team-candidates" ? (
+            <TeamCandidatesSection
+              result={response}
+              onSelect={(candidate) => onSelectTeam(response, candidate)}
+            />
+          ) : (
+            <ResultsSection result={response} onCopy={onCopy} />
+          )}
         </div>
-      )}
+      ))}
     </div>
   );
 }
 
+function describeSearch(query: SearchQuery): string {
+  const subject = query.playerName || query.teamName;
+  const matchup = query.opponentName
+    ? `${subject} vs ${query.opponentName}`
+    : subject;
+  const when = query.gameDate
+    ? format(parseISO(query.gameDate), "PP")
+    : query.startDate && query.endDate
+      ? `${format(parseISO(query.startDate), "PP")} - ${format(parseISO(query.endDate), "PP")}`
+      : "this season";
+  return `${matchup}, ${when}`;
+}
+
+const OUTCOME_LABELS: Record<SearchHistoryEntry["outcome"], string> = {
+  found: "Found",
+  "not-found": "No games",
+  "player-candidates": "Pick player",
+  "team-candidates": "Pick team",
+};
+
+function HistorySection({
+  onSelect,
+}: {
+  onSelect: (query: SearchQuery) => void;
+}) {
+  const { data: history } = useQuery<SearchHistoryEntry[]>({
+    queryKey: ["/api/history"],
+  });
+
+  if (!history || history.length === 0) return null;
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <History className="h-5 w-5 text-primary" />
+          Recent Searches
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {history.map((entry) => (
+          <button
+            key={entry.id}
+            type="button"
+            onClick={() => onSelect(entry.query)}
+            className="w-full flex items-center gap-3 p-3 rounded-lg bg-muted/50 text-left hover-elevate active-elevate-2"
+            data-testid={`button-history-${entry.id}`}
+          >
+            <div className="min-w-0 flex-1">
+              <p className="font-medium text-sm truncate">
+                {describeSearch(entry.query)}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {entry.games.length > 0
+                  ? entry.games
+                      .map((game) => `${game.awayTeam} @ ${game.homeTeam}`)
+                      .join(", ")
+                  : formatDistanceToNow(new Date(entry.createdAt), {
+                      addSuffix: true,
+                    })}
+              </p>
+            </div>
+            <Badge
+              variant={entry.outcome === "found" ? "secondary" : "outline"}
+              className="text-xs"
+            >
+              {OUTCOME_LABELS[entry.outcome]}
+            </Badge>
+          </button>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
 function LoadingSkeleton() {
   return (
     <div className="space-y-6 animate-in fade-in duration-200">
@@ -261,7 +911,9 @@ function EmptyState() {
       <h3 className="font-semibold text-lg mb-2">Find Box Score Links</h3>
       <p className="text-muted-foreground text-sm max-w-sm mx-auto">
         Enter a team name (or player name) and game date to generate links to
-        box scores from official league sites and sports providers.
+        box scores from official league sites and sports providers. Switch on
+        Range to pull every game over a window, or add an opponent and leave
+        the date empty to find every meeting this season.
       </p>
     </div>
   );
@@ -269,7 +921,12 @@ function EmptyState() {
 
 export default function Home() {
   const [date, setDate] = useState<Date | undefined>(undefined);
-  const [result, setResult] = useState<SearchResult | null>(null);
+  const [isRange, setIsRange] = useState(false);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
+  const [result, setResult] = useState<SearchResponse | null>(null);
+  const [favoriteResults, setFavoriteResults] = useState<
+    FavoriteSearchResult[] | null
+  >(null);
   const { toast } = useToast();
 
   const form = useForm<SearchQuery>({
@@ -277,17 +934,24 @@ export default function Home() {
     defaultValues: {
       playerName: "",
       teamName: "",
+      opponentName: "",
       gameDate: "",
+      startDate: "",
+      endDate: "",
+      playerId: "",
+      playerLeague: "",
     },
   });
 
   const searchMutation = useMutation({
     mutationFn: async (data: SearchQuery) => {
       const response = await apiRequest("POST", "/api/search", data);
-      return (await response.json()) as SearchResult;
+      return (await response.json()) as SearchResponse;
     },
     onSuccess: (data) => {
       setResult(data);
+      setFavoriteResults(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/history"] });
     },
     onError: (error) => {
       toast({
@@ -299,6 +963,27 @@ export default function Home() {
     },
   });
 
+  const favoritesSearchMutation = useMutation({
+    mutationFn: async (gameDate: string) => {
+      const response = await apiRequest("POST", "/api/favorites/search", {
+        gameDate,
+      });
+      return (await response.json()) as FavoriteSearchResult[];
+    },
+    onSuccess: (data) => {
+      setFavoriteResults(data);
+      setResult(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Favorites search failed",
+        description:
+          error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: SearchQuery) => {
     searchMutation.mutate(data);
   };
@@ -310,6 +995,97 @@ export default function Home() {
     }
   };
 
+  const handleRangeSelect = (selectedRange: DateRange | undefined) => {
+    setDateRange(selectedRange);
+    form.setValue(
+      "startDate",
+      selectedRange?.from ? format(selectedRange.from, "yyyy-MM-dd") : "",
+    );
+    form.setValue(
+      "endDate",
+      selectedRange?.to ? format(selectedRange.to, "yyyy-MM-dd") : "",
+    );
+  };
+
+  // Switching modes clears the other mode's dates so only one is submitted
+  const handleRangeToggle = (checked: boolean) => {
+    setIsRange(checked);
+    if (checked) {
+      setDate(undefined);
+      form.setValue("gameDate", "");
+    } else {
+      handleRangeSelect(undefined);
+    }
+  };
+
+  const dateLabel = isRange
+    ? dateRange?.from
+      ? dateRange.to
+        ? `${format(dateRange.from, "PP")} - ${format(dateRange.to, "PP")}`
+        : format(dateRange.from, "PP")
+      : "Select dates"
+    : date
+      ? format(date, "PPP")
+      : "Select date";
+
+  // Re-run the same search pinned to the chosen athlete
+  const searchAsPlayer = (query: SearchQuery, candidate: PlayerCandidate) => {
+    searchMutation.mutate({
+      ...query,
+      playerName: candidate.name,
+      playerId: candidate.playerId,
+      playerLeague: candidate.league,
+    });
+  };
+
+  const handlePlayerSelect = (candidate: PlayerCandidate) => {
+    if (result?.type !== "player-candidates") return;
+    searchAsPlayer(result.query, candidate);
+  };
+
+  // Re-run the same search with the chosen team in place of the name that was typed
+  const searchAsTeam = (candidates: TeamCandidatesResult, candidate: TeamCandidate) => {
+    searchMutation.mutate({
+      ...candidates.query,
+      [candidates.field]: candidate.name,
+    });
+  };
+
+  const handleTeamSelect = (candidate: TeamCandidate) => {
+    if (result?.type !== "team-candidates") return;
+    searchAsTeam(result, candidate);
+  };
+
+  const yesterday = () => format(subDays(new Date(), 1), "yyyy-MM-dd");
+
+  const handleFavoriteSearch = (favorite: Favorite) => {
+    handleHistorySelect({
+      playerName: favorite.kind === "player" ? favorite.name : "",
+      teamName: favorite.kind === "team" ? favorite.name : "",
+      opponentName: "",
+      gameDate: yesterday(),
+      startDate: "",
+      endDate: "",
+      playerId: favorite.playerId,
+      playerLeague: favorite.playerLeague,
+    });
+  };
+
+  // Restore a past search into the form and run it again. The picked athlete only goes
+  // with the re-run - kept in the form, it would override a player name typed afterwards.
+  const handleHistorySelect = (query: SearchQuery) => {
+    form.reset({ ...form.formState.defaultValues, ...query, playerId: "", playerLeague: "" });
+    const hasRange = Boolean(query.startDate && query.endDate);
+    setIsRange(hasRange);
+    setDate(query.gameDate ? parseISO(query.gameDate) : undefined);
+    setDateRange(
+      hasRange
+        ? { from: parseISO(query.startDate), to: parseISO(query.endDate) }
+        : undefined,
+    );
+    searchMutation.mutate(query);
+  };
+
   const handleCopy = (url: string) => {
     toast({
       title: "Link copied",
@@ -327,7 +1103,10 @@ export default function Home() {
               <span className="text-primary ml-2">FETCHER</span>
             </h1>
           </div>
-          <ThemeToggle />
+          <div className="flex items-center gap-2">
+            <AccountMenu />
+            <ThemeToggle />
+          </div>
         </div>
       </header>
 
@@ -351,7 +1130,7 @@ export default function Home() {
           </CardHeader>
           <CardContent>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <div className="grid gap-4 sm:grid-cols-3">
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
                 <div className="space-y-2">
                   <Label
                     htmlFor="playerName"
@@ -392,31 +1171,79 @@ export default function Home() {
                 </div>
 
                 <div className="space-y-2">
-                  <Label className="flex items-center gap-2">
-                    <Calendar className="h-4 w-4 text-muted-foreground" />
-                    Game Date (ET)
+                  <Label
+                    htmlFor="opponentName"
+                    className="flex items-center gap-2"
+                  >
+                    <Swords className="h-4 w-4 text-muted-foreground" />
+                    Opponent
                   </Label>
+                  <Input
+                    id="opponentName"
+                    placeholder="(e.g., Boston Celtics)"
+                    {...form.register("opponentName")}
+                    data-testid="input-opponent-name"
+                  />
+                  {form.formState.errors.opponentName && (
+                    <p className="text-xs text-destructive">
+                      {form.formState.errors.opponentName.message}
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label className="flex items-center gap-2">
+                      <Calendar className="h-4 w-4 text-muted-foreground" />
+                      Game Date (ET)
+                    </Label>
+                    <div className="flex items-center gap-2">
+                      <Label
+                        htmlFor="dateRange"
+                        className="text-xs text-muted-foreground"
+                      >
+                        Range
+                      </Label>
+                      <Switch
+                        id="dateRange"
+                        checked={isRange}
+                        onCheckedChange={handleRangeToggle}
+                        data-testid="switch-date-range"
+                      />
+                    </div>
+                  </div>
                   <Popover>
                     <PopoverTrigger asChild>
                       <Button
                         variant="outline"
                         className={cn(
                           "w-full justify-start text-left font-normal",
-                          !date && "text-muted-foreground",
+                          !(isRange ? dateRange?.from : date) &&
+                            "text-muted-foreground",
                         )}
                         data-testid="button-date-picker"
                       >
                         <Calendar className="mr-2 h-4 w-4" />
-                        {date ? format(date, "PPP") : "Select date"}
+                        <span className="truncate">{dateLabel}</span>
                       </Button>
                     </PopoverTrigger>
                     <PopoverContent className="w-auto p-0" align="start">
-                      <CalendarComponent
-                        mode="single"
-                        selected={date}
-                        onSelect={handleDateSelect}
-                        initialFocus
-                      />
+                      {isRange ? (
+                        <CalendarComponent
+                          mode="range"
+                          selected={dateRange}
+                          onSelect={handleRangeSelect}
+                          numberOfMonths={2}
+                          initialFocus
+                        />
+                      ) : (
+                        <CalendarComponent
+                          mode="single"
+                          selected={date}
+                          onSelect={handleDateSelect}
+                          initialFocus
+                        />
+                      )}
                     </PopoverContent>
                   </Popover>
                   {form.formState.errors.gameDate && (
@@ -450,10 +1277,33 @@ export default function Home() {
           </CardContent>
         </Card>
 
+        <FavoritesSection
+          onSearch={handleFavoriteSearch}
+          onSearchAll={() => favoritesSearchMutation.mutate(yesterday())}
+          isSearchingAll={favoritesSearchMutation.isPending}
+        />
+
         <Card>
           <CardContent className="pt-6">
-            {searchMutation.isPending ? (
+            {searchMutation.isPending || favoritesSearchMutation.isPending ? (
               <LoadingSkeleton />
+            ) : favoriteResults ? (
+              <FavoriteResultsSection
+                results={favoriteResults}
+                onCopy={handleCopy}
+                onSelectPlayer={searchAsPlayer}
+                onSelectTeam={searchAsTeam}
+              />
+            ) : result?.type === "player-candidates" ? (
+              <PlayerCandidatesSection
+                result={result}
+                onSelect={handlePlayerSelect}
+              />
+            ) : result?.type === "team-candidates" ? (
+              <TeamCandidatesSection
+                result={result}
+                onSelect={handleTeamSelect}
+              />
             ) : result ? (
               <ResultsSection result={result} onCopy={handleCopy} />
             ) : (
@@ -462,13 +1312,15 @@ export default function Home() {
           </CardContent>
         </Card>
 
+        <HistorySection onSelect={handleHistorySelect} />
+
         <footer className="mt-12 pt-6 border-t border-border text-center">
           <p className="text-sm text-muted-foreground">
             Links generated for official league sites*, ESPN, SofaScore, and
             more.
           </p>
           <p className="text-xs text-muted-foreground mt-1">
-            * - supported leagues: NBA, MLB
+            * - supported leagues: NBA, MLB, NFL, NHL, MLS, WNBA
           </p>
         </footer>
       </main>
@@ -0,0 +1,334 @@
+// Mock sports-data server for integration testing.
+//
+// Serves the subset of the ESPN, NBA and WNBA CDN, NHL web API and MLB StatsAPI
+// endpoints that server/sportsApi.ts reads, built from a seed file of teams,
+// players and games (script/mockSportsSeed.json, or MOCK_SPORTS_SEED). Point the
+// app at it with the base URL variables printed on startup. The end-to-end tests
+// (server/search.test.ts) start it on a free port with createMockServer.
+//
+// Every upstream endpoint the app reads is served; what's missing is seed data. The
+// seed has NBA, WNBA, MLB, NHL and MLS games but no NFL, college or European ones.
+
+import express, { type Request, type Response } from "express";
+import { readFile } from "fs/promises";
+import path from "path";
+import { pathToFileURL } from "url";
+
+interface SeedTeam {
+  league: string;
+  id: string;
+  abbreviation: string;
+  displayName: string;
+  name: string;
+  // The league feed's code when it differs from ESPN's (e.g. "GSW" for ESPN's "GS")
+  leagueAbbreviation?: string;
+}
+
+interface SeedPlayer {
+  id: string;
+  league: string;
+  displayName: string;
+  shortName: string;
+  team: string;
+  position: string;
+}
+
+interface SeedGame {
+  id: string;
+  league: string;
+  // Start time, ISO 8601 UTC
+  date: string;
+  home: string;
+  away: string;
+  // NBA gameId or MLB gamePk
+  officialId: string;
+  // Stat line per ESPN athlete ID, in STAT_LABELS order; rostered players without one did not play
+  stats: Record<string, string[]>;
+}
+
+export interface Seed {
+  seasons: Record<string, { year: number; startDate: string; endDate: string }>;
+  teams: SeedTeam[];
+  players: SeedPlayer[];
+  games: SeedGame[];
+}
+
+const STAT_LABELS: Record<string, string[]> = {
+  nba: ["MIN", "PTS", "REB", "AST"],
+  wnba: ["MIN", "PTS", "REB", "AST"],
+  mlb: ["AB", "R", "H", "RBI"],
+  nhl: ["G", "A", "SOG", "TOI"],
+  nfl: ["C/ATT", "YDS", "TD", "INT"],
+};
+
+// ESPN's football box scores leave out players who recorded no stat
+const STATS_ONLY_LEAGUES = ["nfl", "ncaaf"];
+
+// ESPN URL league segments that differ from the seed's league IDs
+const ESPN_LEAGUE_IDS: Record<string, string> = {
+  "mens-college-basketball": "ncaam",
+  "womens-college-basketball": "ncaaw",
+  "college-football": "ncaaf",
+  "usa.1": "mls",
+  "eng.1": "epl",
+  "esp.1": "laliga",
+  "ger.1": "bundesliga",
+  "ita.1": "seriea",
+  "fra.1": "ligue1",
+  "uefa.champions": "ucl",
+};
+
+function toEasternDate(isoDate: string): string {
+  return new Date(isoDate).toLocaleDateString("en-CA", { timeZone: "America/New_York" });
+}
+
+// "YYYYMMDD" or "YYYYMMDD-YYYYMMDD" to an inclusive YYYY-MM-DD range
+function parseEspnDates(dates: string): [string, string] {
+  const toIso = (d: string) => `${d.substring(0, 4)}-${d.substring(4, 6)}-${d.substring(6, 8)}`;
+  const [start, end = start] = dates.split("-");
+  return [toIso(start), toIso(end)];
+}
+
+export async function loadSeed(seedPath = path.resolve(process.env.MOCK_SPORTS_SEED || "script/mockSportsSeed.json")): Promise<Seed> {
+  return JSON.parse(await readFile(seedPath, "utf8"));
+}
+
+export function createMockServer(seed: Seed, options: { log?: boolean } = {}) {
+  const app = express();
+
+  const team = (league: string, abbreviation: string) =>
+    seed.teams.find((t) => t.league === league && t.abbreviation === abbreviation);
+  const gamesFor = (league: string) => seed.games.filter((g) => g.league === league);
+  const leagueCode = (league: string, abbreviation: string) =>
+    team(league, abbreviation)?.leagueAbbreviation || abbreviation;
+
+  const espnTeam = (t: SeedTeam | undefined, abbreviation: string) => ({
+    id: t?.id || abbreviation,
+    name: t?.name || abbreviation,
+    abbreviation,
+    displayName: t?.displayName || abbreviation,
+  });
+
+  app.use((req, _res, next) => {
+    if (options.log !== false) console.log(`[mock] ${req.method} ${req.originalUrl}`);
+    next();
+  });
+
+  // Seed league ID for an ESPN sport path's league segment
+  const espnLeague = (req: Request) => ESPN_LEAGUE_IDS[req.params.league] || req.params.league;
+
+  // ESPN scoreboard - games on a date or date range, plus the season window
+  app.get("/espn-site/apis/site/v2/sports/:sport/:league/scoreboard", (req: Request, res: Response) => {
+    const league = espnLeague(req);
+    const season = seed.seasons[league];
+    const [start, end] = req.query.dates
+      ? parseEspnDates(String(req.query.dates))
+      : [toEasternDate(new Date().toISOString()), toEasternDate(new Date().toISOString())];
+
+    const events = gamesFor(league)
+      .filter((g) => {
+        const gameDate = toEasternDate(g.date);
+        return gameDate >= start && gameDate <= end;
+      })
+      .map((g) => ({
+        id: g.id,
+        date: g.date,
+        name: `${team(league, g.away)?.displayName} at ${team(league, g.home)?.displayName}`,
+        shortName: `${g.away} @ ${g.home}`,
+        ...(season && { season: { year: season.year, type: 2 } }),
+        competitions: [
+          {
+            id: g.id,
+            competitors: [
+              { id: team(league, g.home)?.id, homeAway: "home", team: espnTeam(team(league, g.home), g.home) },
+              { id: team(league, g.away)?.id, homeAway: "away", team: espnTeam(team(league, g.away), g.away) },
+            ],
+          },
+        ],
+      }));
+
+    res.json({
+      leagues: season ? [{ season: { year: season.year, startDate: season.startDate, endDate: season.endDate } }] : [],
+      events,
+    });
+  });
+
+  // ESPN game summary - one stat group per team listing its seeded players
+  app.get("/espn-site/apis/site/v2/sports/:sport/:league/summary", (req: Request, res: Response) => {
+    const league = espnLeague(req);
+    const game = gamesFor(league).find((g) => g.id === String(req.query.event));
+    if (!game) return res.status(404).json({ message: "Game not found" });
+
+    const labels = STAT_LABELS[league] || [];
+    res.json({
+      header: { id: game.id },
+      boxscore: {
+        players: [game.away, game.home].map((abbreviation) => ({
+          team: espnTeam(team(league, abbreviation), abbreviation),
+          statistics: [
+            {
+              labels,
+              athletes: seed.players
+                .filter((p) => p.league === league && p.team === abbreviation)
+                .filter((p) => !STATS_ONLY_LEAGUES.includes(league) || game.stats[p.id])
+                .map((p) => ({
+                  athlete: { id: p.id, displayName: p.displayName },
+                  starter: Boolean(game.stats[p.id]),
+                  didNotPlay: !game.stats[p.id],
+                  stats: game.stats[p.id] || [],
+                })),
+            },
+          ],
+        })),
+      },
+    });
+  });
+
+  // ESPN athlete search
+  app.get("/espn-site/apis/common/v3/search", (req: Request, res: Response) => {
+    const query = String(req.query.query || "").toLowerCase();
+    const limit = parseInt(String(req.query.limit || "10"), 10);
+    const items = seed.players
+      .filter((p) => query && p.displayName.toLowerCase().includes(query))
+      .slice(0, limit)
+      .map((p) => ({ id: p.id, displayName: p.displayName, shortName: p.shortName, league: p.league, type: "player" }));
+
+    res.json({ items });
+  });
+
+  // ESPN athlete detail and game log
+  app.get("/espn-web/apis/common/v3/sports/:sport/:league/athletes/:id", (req: Request, res: Response) => {
+    const player = seed.players.find((p) => p.league === espnLeague(req) && p.id === req.params.id);
+    if (!player) return res.status(404).json({ message: "Athlete not found" });
+
+    const t = team(player.league, player.team);
+    res.json({
+      athlete: {
+        id: player.id,
+        displayName: player.displayName,
+        fullName: player.displayName,
+        position: { abbreviation: player.position },
+        team: { displayName: t?.displayName, abbreviation: player.team },
+      },
+    });
+  });
+
+  app.get("/espn-web/apis/common/v3/sports/:sport/:league/athletes/:id/gamelog", (req: Request, res: Response) => {
+    const league = espnLeague(req);
+    const { id } = req.params;
+    const player = seed.players.find((p) => p.league === league && p.id === id);
+    const season = seed.seasons[league];
+    if (!player || !season || String(req.query.season) !== String(season.year)) {
+      return res.status(404).json({ message: "No game log" });
+    }
+
+    const t = team(league, player.team);
+    const events = Object.fromEntries(
+      gamesFor(league)
+        .filter((g) => g.stats[id])
+        .map((g) => [g.id, { id: g.id, gameDate: g.date, team: { abbreviation: player.team, displayName: t?.displayName } }]),
+    );
+
+    res.json({ events });
+  });
+
+  // NBA and WNBA CDN - today's scoreboard and the full-season schedule (same feed format)
+  const nbaGame = (g: SeedGame) => ({
+    gameId: g.officialId,
+    gameDateUTC: `${toEasternDate(g.date)}T00:00:00Z`,
+    homeTeam: { teamTricode: leagueCode(g.league, g.home) },
+    awayTeam: { teamTricode: leagueCode(g.league, g.away) },
+  });
+
+  app.get("/nba-cdn/static/json/liveData/scoreboard/todaysScoreboard_00.json", (_req: Request, res: Response) => {
+    const today = toEasternDate(new Date().toISOString());
+    res.json({
+      scoreboard: {
+        gameDate: today,
+        games: gamesFor("nba").filter((g) => toEasternDate(g.date) === today).map(nbaGame),
+      },
+    });
+  });
+
+  app.get("/nba-cdn/static/json/staticData/scheduleLeagueV2_1.json", (_req: Request, res: Response) => {
+    res.json({ leagueSchedule: { gameDates: [{ games: gamesFor("nba").map(nbaGame) }] } });
+  });
+
+  app.get("/wnba-cdn/static/json/staticData/scheduleLeagueV2_1.json", (_req: Request, res: Response) => {
+    res.json({ leagueSchedule: { gameDates: [{ games: gamesFor("wnba").map(nbaGame) }] } });
+  });
+
+  // NHL web API schedule - the week starting at the date, one entry per day
+  app.get("/nhl-api/v1/schedule/:date", (req: Request, res: Response) => {
+    const gameWeek = Array.from({ length: 7 }, (_, offset) => {
+      const day = new Date(`${req.params.date}T12:00:00Z`);
+      day.setUTCDate(day.getUTCDate() + offset);
+      const date = day.toISOString().substring(0, 10);
+      return {
+        date,
+        games: gamesFor("nhl")
+          .filter((g) => toEasternDate(g.date) === date)
+          .map((g) => ({
+            id: Number(g.officialId),
+            homeTeam: { abbrev: leagueCode("nhl", g.home) },
+            awayTeam: { abbrev: leagueCode("nhl", g.away) },
+          })),
+      };
+    });
+
+    res.json({ gameWeek });
+  });
+
+  // MLB StatsAPI schedule for a date, or a startDate-endDate range grouped by date
+  app.get("/mlb-stats/api/v1/schedule", (req: Request, res: Response) => {
+    const start = String(req.query.date || req.query.startDate || "");
+    const end = String(req.query.date || req.query.endDate || "");
+    const byDate = new Map<string, SeedGame[]>();
+    for (const g of gamesFor("mlb").sort((a, b) => a.date.localeCompare(b.date))) {
+      const gameDate = toEasternDate(g.date);
+      if (gameDate < start || gameDate > end) continue;
+      byDate.set(gameDate, [...(byDate.get(gameDate) || []), g]);
+    }
+
+    const dates = Array.from(byDate.entries()).map(([date, games]) => ({
+      date,
+      games: games.map((g) => ({
+        gamePk: Number(g.officialId),
+        gameDate: g.date,
+        teams: {
+          home: { team: { name: team("mlb", g.home)?.displayName } },
+          away: { team: { name: team("mlb", g.away)?.displayName } },
+        },
+      })),
+    }));
+
+    res.json({ dates });
+  });
+
+  app.use((req: Request, res: Response) => {
+    res.status(404).json({ message: `No mock for ${req.path}` });
+  });
+
+  return app;
+}
+
+// Run standalone (npm run mock:sports); the tests import createMockServer instead
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  (async () => {
+    const port = parseInt(process.env.MOCK_SPORTS_PORT || "5099", 10);
+    const seedPath = path.resolve(process.env.MOCK_SPORTS_SEED || "script/mockSportsSeed.json");
+    const seed = await loadSeed(seedPath);
+    const base = `http://localhost:${port}`;
+
+    createMockServer(seed).listen(port, () => {
+      console.log(`Mock sports server on ${base} (seed: ${seedPath})`);
+      console.log("Point the app at it with:");
+      console.log(`  ESPN_SITE_API_BASE=${base}/espn-site`);
+      console.log(`  ESPN_WEB_API_BASE=${base}/espn-web`);
+      console.log(`  NBA_CDN_BASE=${base}/nba-cdn`);
+      console.log(`  WNBA_CDN_BASE=${base}/wnba-cdn`);
+      console.log(`  NHL_API_BASE=${base}/nhl-api`);
+      console.log(`  MLB_STATS_API_BASE=${base}/mlb-stats`);
+    });
+  })();
+}
@@ -0,0 +1,132 @@
+// Local username/password accounts - passport strategy, password hashing and auth routes.
+// The session middleware itself is set up in index.ts.
+
+import type { Express, Request, Response, NextFunction } from "express";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { insertUserSchema, type User as SelectUser, type PublicUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  const storedHash = Buffer.from(hashed, "hex");
+  const suppliedHash = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+function toPublicUser(user: SelectUser): PublicUser {
+  return { id: user.id, username: user.username };
+}
+
+// Rejects API requests without a signed-in user
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Sign in required" });
+  }
+  next();
+}
+
+export function setupAuth(app: Express) {
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim());
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // A deleted user just ends the session rather than erroring
+      done(null, (await storage.getUser(id)) || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const result = insertUserSchema.safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid registration",
+          errors: result.error.flatten().fieldErrors,
+        });
+      }
+
+      if (await storage.getUserByUsername(result.data.username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username: result.data.username,
+        password: await hashPassword(result.data.password),
+      });
+
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      console.error("Register error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate(
+      "local",
+      (error: unknown, user: SelectUser | false, info?: { message: string }) => {
+        if (error) return next(error);
+        if (!user) {
+          return res.status(401).json({ message: info?.message || "Invalid username or password" });
+        }
+        req.login(user, (loginError) => {
+          if (loginError) return next(loginError);
+          res.json(toPublicUser(user));
+        });
+      },
+    )(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.sendStatus(204);
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
@@ -0,0 +1,142 @@
+// Box score normalization - turns ESPN's game summary into the shared BoxScore model
+
+import {
+  LEAGUES,
+  type BoxScore,
+  type BoxScoreStatGroup,
+  type BoxScoreTeam,
+  type Sport,
+} from "@shared/schema";
+import { fetchGameSummary } from "./sportsApi";
+
+// Period column prefix and regulation length per sport; anything beyond is overtime
+const PERIOD_FORMATS: Record<Sport, { prefix: string; regulation: number; overtime: string }> = {
+  basketball: { prefix: "Q", regulation: 4, overtime: "OT" },
+  football: { prefix: "Q", regulation: 4, overtime: "OT" },
+  hockey: { prefix: "P", regulation: 3, overtime: "OT" },
+  baseball: { prefix: "", regulation: 9, overtime: "" },
+  soccer: { prefix: "H", regulation: 2, overtime: "ET" },
+};
+
+// Leagues whose periods differ from their sport's default
+const LEAGUE_PERIOD_FORMATS: Record<string, { prefix: string; regulation: number; overtime: string }> = {
+  ncaam: { prefix: "H", regulation: 2, overtime: "OT" },
+};
+
+function periodHeaders(league: string, sport: Sport, count: number): string[] {
+  const format = LEAGUE_PERIOD_FORMATS[league] || PERIOD_FORMATS[sport];
+  return Array.from({ length: count }, (_, i) => {
+    // Baseball extra innings keep counting (10, 11, ...)
+    if (i < format.regulation || !format.overtime) return `${format.prefix}${i + 1}`;
+    const overtime = i - format.regulation + 1;
+    return overtime === 1 ? format.overtime : `${overtime}${format.overtime}`;
+  });
+}
+
+function normalizeStatGroups(teamBox: any): BoxScoreStatGroup[] {
+  return (teamBox.statistics || []).map((group: any) => ({
+    name: group.name || group.type || "",
+    labels: group.labels || group.names || [],
+    players: (group.athletes || []).map((entry: any) => ({
+      playerId: String(entry.athlete?.id ?? ""),
+      name: entry.athlete?.displayName || "",
+      position: entry.athlete?.position?.abbreviation || "",
+      starter: !!entry.starter,
+      stats: entry.didNotPlay ? [] : (entry.stats || []).map(String),
+      ...(entry.didNotPlay && { didNotPlay: entry.reason || "DNP" }),
+    })),
+    totals: (group.totals || []).map(String),
+  }));
+}
+
+// Soccer summaries have no per-player box score, only matchday rosters whose
+// stat lists vary by player, so build one table over every stat seen
+function normalizeSoccerRoster(teamRoster: any): BoxScoreStatGroup[] {
+  const roster: any[] = teamRoster.roster || [];
+  const labels: string[] = [];
+  for (const entry of roster) {
+    for (const stat of entry.stats || []) {
+      const label = stat.abbreviation || stat.name;
+      if (label && !labels.includes(label)) labels.push(label);
+    }
+  }
+
+  return [{
+    name: "players",
+    labels,
+    players: roster.map((entry: any) => {
+      const played = !!(entry.starter || entry.subbedIn);
+      const stats = new Map<string, string>(
+        (entry.stats || []).map((stat: any) => [stat.abbreviation || stat.name, String(stat.displayValue ?? stat.value)]),
+      );
+      return {
+        playerId: String(entry.athlete?.id ?? ""),
+        name: entry.athlete?.displayName || "",
+        position: entry.position?.abbreviation || "",
+        starter: !!entry.starter,
+        stats: played ? labels.map((label) => stats.get(label) ?? "") : [],
+        ...(!played && { didNotPlay: "Unused substitute" }),
+      };
+    }),
+    totals: [],
+  }];
+}
+
+export function normalizeBoxScore(league: string, espnGameId: string, summary: any): BoxScore | null {
+  const leagueId = league.toLowerCase();
+  const leagueInfo = LEAGUES.find((l) => l.id === leagueId);
+  const competition = summary?.header?.competitions?.[0];
+  if (!leagueInfo || !competition) return null;
+
+  const teamTotals = new Map<string, BoxScoreTeam["totals"]>(
+    (summary.boxscore?.teams || []).map((t: any) => [
+      String(t.team?.id),
+      (t.statistics || []).map((stat: any) => ({
+        label: stat.label || stat.name,
+        value: String(stat.displayValue ?? ""),
+      })),
+    ]),
+  );
+
+  const teams: BoxScoreTeam[] = (competition.competitors || [])
+    .map((c: any) => ({
+      name: c.team?.displayName || "",
+      abbreviation: c.team?.abbreviation || "",
+      homeAway: c.homeAway === "home" ? "home" : "away",
+      score: String(c.score ?? ""),
+      periodScores: (c.linescores || []).map((ls: any) => String(ls.displayValue ?? ls.value ?? "")),
+      totals: teamTotals.get(String(c.team?.id)) || [],
+    }))
+    .sort((a: BoxScoreTeam, b: BoxScoreTeam) =>
+      a.homeAway === b.homeAway ? 0 : a.homeAway === "away" ? -1 : 1,
+    );
+
+  const periodCount = Math.max(0, ...teams.map((t) => t.periodScores.length));
+
+  const playerStats = leagueInfo.sport === "soccer"
+    ? (summary.rosters || []).map((r: any) => ({
+        teamAbbreviation: r.team?.abbreviation || "",
+        groups: normalizeSoccerRoster(r),
+      }))
+    : (summary.boxscore?.players || []).map((p: any) => ({
+        teamAbbreviation: p.team?.abbreviation || "",
+        groups: normalizeStatGroups(p),
+      }));
+
+  return {
+    espnGameId,
+    league: leagueInfo.name,
+    sport: leagueInfo.sport,
+    status: competition.status?.type?.detail || competition.status?.type?.description || "",
+    gameDate: competition.date || "",
+    periods: periodHeaders(leagueId, leagueInfo.sport, periodCount),
+    teams,
+    playerStats,
+  };
+}
+
+export async function fetchBoxScore(league: string, espnGameId: string): Promise<BoxScore | null> {
+  const summary = await fetchGameSummary(league, espnGameId);
+  if (!summary) return null;
+  return normalizeBoxScore(league, espnGameId, summary);
+}
@@ -0,0 +1,106 @@
+// Box score export - flattens the normalized BoxScore into player rows and
+// serializes them as CSV, JSON or XLSX
+
+import * as XLSX from "xlsx";
+import { type BoxScore } from "@shared/schema";
+import { toEasternDate } from "./sportsApi";
+
+export const EXPORT_FORMATS = ["csv", "json", "xlsx"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+type ExportRow = Record<string, string>;
+
+// Leading columns every export shares, before the sport's stat columns
+const BASE_COLUMNS = ["team", "player", "player_id", "position", "starter", "did_not_play"];
+
+// Stat column names are the ESPN label, prefixed with the stat group for sports
+// that split players into several tables (e.g. "batting_h" vs "pitching_h"),
+// so the same sport always produces the same columns
+function statColumn(groupName: string, label: string, multiGroup: boolean): string {
+  const name = multiGroup && groupName ? `${groupName} ${label}` : label;
+  return name
+    .toLowerCase()
+    .replace(/%/g, " pct")
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+export function boxScoreToRows(boxScore: BoxScore): { columns: string[]; rows: ExportRow[] } {
+  const statColumns: string[] = [];
+  const rowsByPlayer = new Map<string, ExportRow>();
+
+  for (const teamStats of boxScore.playerStats) {
+    const multiGroup = teamStats.groups.length > 1;
+
+    for (const group of teamStats.groups) {
+      const columns = group.labels.map((label) => statColumn(group.name, label, multiGroup));
+      for (const column of columns) {
+        if (!statColumns.includes(column)) statColumns.push(column);
+      }
+
+      // A player in several groups (e.g. a two-way MLB player) gets one merged row
+      for (const player of group.players) {
+        const key = `${teamStats.teamAbbreviation}:${player.playerId || player.name}`;
+        const row = rowsByPlayer.get(key) || {
+          team: teamStats.teamAbbreviation,
+          player: player.name,
+          player_id: player.playerId,
+          position: player.position,
+          starter: player.starter ? "Y" : "N",
+          did_not_play: player.didNotPlay || "",
+        };
+        columns.forEach((column, i) => {
+          if (player.stats[i] !== undefined) row[column] = player.stats[i];
+        });
+        rowsByPlayer.set(key, row);
+      }
+    }
+  }
+
+  const columns = [...BASE_COLUMNS, ...statColumns];
+  const rows = Array.from(rowsByPlayer.values()).map((row) =>
+    Object.fromEntries(columns.map((column) => [column, row[column] ?? ""])),
+  );
+
+  return { columns, rows };
+}
+
+function csvEscape(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(columns: string[], rows: ExportRow[]): string {
+  const lines = [
+    columns.map(csvEscape).join(","),
+    ...rows.map((row) => columns.map((column) => csvEscape(row[column] ?? "")).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function toXlsx(boxScore: BoxScore, columns: string[], rows: ExportRow[]): Buffer {
+  const workbook = XLSX.utils.book_new();
+
+  const players = XLSX.utils.json_to_sheet(rows, { header: columns });
+  XLSX.utils.book_append_sheet(workbook, players, "Players");
+
+  const lineScore = XLSX.utils.aoa_to_sheet([
+    ["team", ...boxScore.periods, "total"],
+    ...boxScore.teams.map((team) => [
+      team.abbreviation,
+      ...boxScore.periods.map((_, i) => team.periodScores[i] ?? ""),
+      team.score,
+    ]),
+  ]);
+  XLSX.utils.book_append_sheet(workbook, lineScore, "Line Score");
+
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+export function exportFileName(boxScore: BoxScore, format: ExportFormat): string {
+  const [away, home] = boxScore.teams;
+  // gameDate is ESPN's UTC start time; an evening US game is the next day in UTC
+  const date = boxScore.gameDate ? toEasternDate(boxScore.gameDate) : "";
+  const matchup = [away?.abbreviation, home?.abbreviation].filter(Boolean).join("-at-");
+  return `${boxScore.league.toLowerCase()}-${date}-${matchup || boxScore.espnGameId}.${format}`
+    .replace(/[^a-zA-Z0-9._-]/g, "");
+}
@@ -0,0 +1,12 @@
+import { drizzle } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import * as schema from "@shared/schema";
+
+// Only connect when a database is provisioned; storage falls back to memory otherwise
+export const pool = process.env.DATABASE_URL
+  ? new pg.Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
+
+export const db = pool ? drizzle(pool, { schema }) : null;
+
+export type Database = NonNullable<typeof db>;
@@ -2,6 +2,10 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
+import { randomBytes } from "crypto";
+import session from "express-session";
+import { storage } from "./storage";
+import { getCacheStats } from "./responseCache";
 
 const app = express();
 const httpServer = createServer(app);
@@ -22,6 +26,24 @@ app.use(
 
 app.use(express.urlencoded({ extended: false }));
 
+// Sessions for signed-in users. Without SESSION_SECRET a random secret is used,
+// so sessions don't survive a restart.
+app.set("trust proxy", 1);
+app.use(
+  session({
+    secret: process.env.SESSION_SECRET || randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000,
+    },
+  }),
+);
+
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
     hour: "numeric",
@@ -59,6 +81,17 @@ app.use((req, res, next) => {
   next();
 });
 
+// Upstream response cache hits and misses, logged every few minutes when they've changed
+const CACHE_STATS_INTERVAL_MS = 5 * 60 * 1000;
+let loggedCacheStats = getCacheStats();
+setInterval(() => {
+  const stats = getCacheStats();
+  if (stats.hits === loggedCacheStats.hits && stats.misses === loggedCacheStats.misses) return;
+  loggedCacheStats = stats;
+  const lookups = stats.hits + stats.misses;
+  log(`${stats.hits} hits, ${stats.misses} misses (${Math.round((stats.hits / lookups) * 100)}% hit rate)`, "cache");
+}, CACHE_STATS_INTERVAL_MS).unref();
+
 (async () => {
   await registerRoutes(httpServer, app);
 
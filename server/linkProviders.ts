@@ -0,0 +1,593 @@
+// Box score link providers
+//
+// Each provider declares the leagues it covers and whether its links are
+// official league sites or third-party sources. Providers register themselves
+// with the registry below, and search orchestration only ever calls
+// resolveGameLinks() - adding a new site means adding a provider here.
+
+import { LEAGUES, type BoxScoreLink, type LeagueId } from "@shared/schema";
+import { findTeam, seasonForDate, teamIdentity } from "@shared/teams";
+import {
+  fetchNbaGameId,
+  fetchMlbGameId,
+  fetchWnbaGameId,
+  fetchNhlGameId,
+  getNflGameSlug,
+  getMlsMatchSlug,
+  withDeadline,
+  LOOKUP_DEADLINE_MS,
+  type GameInfo,
+} from "./sportsApi";
+
+export interface LinkProvider {
+  id: string;
+  name: string;
+  providerType: BoxScoreLink["providerType"];
+  // Leagues this provider can build links for, or "all" for league-agnostic sites
+  leagues: readonly LeagueId[] | "all";
+  resolve(game: GameInfo): Promise<BoxScoreLink[]>;
+}
+
+const providers: LinkProvider[] = [];
+
+export function registerLinkProvider(provider: LinkProvider): void {
+  if (providers.some((p) => p.id === provider.id)) {
+    throw new Error(`Link provider already registered: ${provider.id}`);
+  }
+  providers.push(provider);
+}
+
+export function getLinkProviders(league?: string): LinkProvider[] {
+  if (!league) return [...providers];
+  const leagueId = league.toLowerCase();
+  return providers.filter(
+    (p) => p.leagues === "all" || (p.leagues as readonly string[]).includes(leagueId),
+  );
+}
+
+// Resolve links from every provider that supports the game's league.
+// A failing provider is logged and skipped so one bad upstream can't sink the search.
+// Providers run concurrently - the official-ID lookups alongside the third-party
+// links - under one shared deadline. Links keep the registration order.
+export async function resolveGameLinks(game: GameInfo): Promise<BoxScoreLink[]> {
+  const deadline = Date.now() + LOOKUP_DEADLINE_MS;
+  const linksByProvider = await Promise.all(
+    getLinkProviders(game.league).map((provider) =>
+      withDeadline(
+        provider.resolve(game).catch((error) => {
+          console.error(`Link provider ${provider.id} failed:`, error);
+          return [];
+        }),
+        deadline,
+        [],
+        `Link provider ${provider.id}`,
+      ),
+    ),
+  );
+
+  return linksByProvider.flat();
+}
+
+function leaguesForSport(sport: string): LeagueId[] {
+  return LEAGUES.filter((l) => l.sport === sport).map((l) => l.id);
+}
+
+const SOCCER_LEAGUES = leaguesForSport("soccer");
+
+export function formatDateForDisplay(dateStr: string): string {
+  const date = new Date(dateStr);
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+// NBA.com - official box score via NBA's own game ID
+export const nbaComProvider: LinkProvider = {
+  id: "nba-com",
+  name: "NBA.com",
+  providerType: "official",
+  leagues: ["nba"],
+  async resolve(game) {
+    const nbaGame = await fetchNbaGameId(
+      game.gameDate,
+      game.homeTeamAbbr,
+      game.awayTeamAbbr,
+    );
+    if (!nbaGame) return [];
+
+    // NBA.com direct box score URL format: https://www.nba.com/game/{away}-vs-{home}-{gameId}/box-score
+    return [{
+      id: "nba-com-boxscore",
+      provider: "NBA.com",
+      providerType: "official",
+      league: "NBA",
+      url: `https://www.nba.com/game/${nbaGame.awayAbbr}-vs-${nbaGame.homeAbbr}-${nbaGame.gameId}/box-score`,
+      description: `Official NBA box score - ${game.awayTeam} @ ${game.homeTeam}`,
+      linkType: "direct",
+    }];
+  },
+};
+
+// MLB.com - official box score via MLB StatsAPI gamePk
+export const mlbComProvider: LinkProvider = {
+  id: "mlb-com",
+  name: "MLB.com",
+  providerType: "official",
+  leagues: ["mlb"],
+  async resolve(game) {
+    const mlbGame = await fetchMlbGameId(
+      game.gameDate,
+      game.homeTeam,
+      game.awayTeam,
+      game.gameNumber,
+    );
+    if (!mlbGame) return [];
+
+    const [year, month, day] = game.gameDate.split("-");
+
+    // MLB.com box score URL format: https://www.mlb.com/gameday/{away-slug}-vs-{home-slug}/{year}/{month}/{day}/{gamePk}/final/box
+    return [{
+      id: "mlb-com-boxscore",
+      provider: "MLB.com",
+      providerType: "official",
+      league: "MLB",
+      url: `https://www.mlb.com/gameday/${mlbGame.awaySlug}-vs-${mlbGame.homeSlug}/${year}/${month}/${day}/${mlbGame.gamePk}/final/box`,
+      description: `Official MLB box score - ${mlbGame.awayTeam} @ ${mlbGame.homeTeam}`,
+      linkType: "direct",
+    }];
+  },
+};
+
+// WNBA.com - official box score via the WNBA's own game ID
+export const wnbaComProvider: LinkProvider = {
+  id: "wnba-com",
+  name: "WNBA.com",
+  providerType: "official",
+  leagues: ["wnba"],
+  async resolve(game) {
+    const wnbaGame = await fetchWnbaGameId(
+      game.gameDate,
+      game.homeTeamAbbr,
+      game.awayTeamAbbr,
+    );
+    if (!wnbaGame) return [];
+
+    // WNBA.com box score URL format: https://www.wnba.com/game/{gameId}/boxscore
+    return [{
+      id: "wnba-com-boxscore",
+      provider: "WNBA.com",
+      providerType: "official",
+      league: "WNBA",
+      url: `https://www.wnba.com/game/${wnbaGame.gameId}/boxscore`,
+      description: `Official WNBA box score - ${game.awayTeam} @ ${game.homeTeam}`,
+      linkType: "direct",
+    }];
+  },
+};
+
+// NCAA.com - the official Division I scoreboard for the game's date. NCAA game IDs
+// can't be derived from ESPN's, so the day's scoreboard is linked rather than the game.
+// College football is out of scope: its NCAA.com scoreboards go by NCAA week, not date.
+const NCAA_SCOREBOARD_SPORTS: Record<string, string> = {
+  ncaam: "basketball-men",
+  ncaaw: "basketball-women",
+};
+
+export const ncaaComProvider: LinkProvider = {
+  id: "ncaa-com",
+  name: "NCAA.com",
+  providerType: "official",
+  leagues: ["ncaam", "ncaaw"],
+  async resolve(game) {
+    const sport = NCAA_SCOREBOARD_SPORTS[game.league.toLowerCase()];
+    if (!sport) return [];
+
+    const [year, month, day] = game.gameDate.split("-");
+
+    return [{
+      id: "ncaa-com-scoreboard",
+      provider: "NCAA.com",
+      providerType: "official",
+      league: game.league,
+      url: `https://www.ncaa.com/scoreboard/${sport}/d1/${year}/${month}/${day}/all-conf`,
+      description: `Official NCAA scoreboard for ${formatDateForDisplay(game.gameDate)}`,
+      linkType: "search",
+    }];
+  },
+};
+
+// NFL.com - official game center, derived from the ESPN season and week
+export const nflComProvider: LinkProvider = {
+  id: "nfl-com",
+  name: "NFL.com",
+  providerType: "official",
+  leagues: ["nfl"],
+  async resolve(game) {
+    const nflGame = getNflGameSlug(game);
+    if (!nflGame) return [];
+
+    // NFL.com game center URL format: https://www.nfl.com/games/{away}-at-{home}-{season}-{pre|reg|post}-{week}
+    return [{
+      id: "nfl-com-gamecenter",
+      provider: "NFL.com",
+      providerType: "official",
+      league: "NFL",
+      url: `https://www.nfl.com/games/${nflGame.slug}`,
+      description: `Official NFL game center - ${game.awayTeam} @ ${game.homeTeam}`,
+      linkType: "direct",
+    }];
+  },
+};
+
+// NHL.com - official gamecenter box score via the NHL's own game ID
+export const nhlComProvider: LinkProvider = {
+  id: "nhl-com",
+  name: "NHL.com",
+  providerType: "official",
+  leagues: ["nhl"],
+  async resolve(game) {
+    const nhlGame = await fetchNhlGameId(
+      game.gameDate,
+      game.homeTeamAbbr,
+      game.awayTeamAbbr,
+    );
+    if (!nhlGame) return [];
+
+    const [year, month, day] = game.gameDate.split("-");
+
+    // NHL.com gamecenter URL format: https://www.nhl.com/gamecenter/{away}-vs-{home}/{year}/{month}/{day}/{gameId}/boxscore
+    return [{
+      id: "nhl-com-boxscore",
+      provider: "NHL.com",
+      providerType: "official",
+      league: "NHL",
+      url: `https://www.nhl.com/gamecenter/${nhlGame.awayAbbr}-vs-${nhlGame.homeAbbr}/${year}/${month}/${day}/${nhlGame.gameId}/boxscore`,
+      description: `Official NHL box score - ${game.awayTeam} @ ${game.homeTeam}`,
+      linkType: "direct",
+    }];
+  },
+};
+
+// MLSsoccer.com - official match center, derived from the ESPN clubs and date
+export const mlsSoccerProvider: LinkProvider = {
+  id: "mlssoccer-com",
+  name: "MLSsoccer.com",
+  providerType: "official",
+  leagues: ["mls"],
+  async resolve(game) {
+    const mlsMatch = getMlsMatchSlug(game);
+    if (!mlsMatch) return [];
+
+    // MLS match center URL format: https://www.mlssoccer.com/competitions/mls-regular-season/{season}/matches/{home}vs{away}-{mm}-{dd}-{yyyy}/boxscore
+    return [{
+      id: "mlssoccer-com-boxscore",
+      provider: "MLSsoccer.com",
+      providerType: "official",
+      league: "MLS",
+      url: `https://www.mlssoccer.com/competitions/mls-regular-season/${mlsMatch.season}/matches/${mlsMatch.slug}/boxscore`,
+      description: `Official MLS match center - ${game.awayTeam} @ ${game.homeTeam}`,
+      linkType: "direct",
+    }];
+  },
+};
+
+// Official European competition sites. Their match pages are keyed by internal IDs
+// that nothing we fetch exposes, so these link each competition's results listing.
+const EUROPEAN_OFFICIAL_SITES: Record<string, { name: string; url: string }> = {
+  epl: { name: "PremierLeague.com", url: "https://www.premierleague.com/results" },
+  laliga: { name: "LaLiga.com", url: "https://www.laliga.com/en-GB/laliga-easports/results" },
+  bundesliga: { name: "Bundesliga.com", url: "https://www.bundesliga.com/en/bundesliga/matchday" },
+  seriea: { name: "LegaSerieA.it", url: "https://www.legaseriea.it/en/serie-a/fixture-and-results" },
+  ligue1: { name: "Ligue1.com", url: "https://ligue1.com/fixtures-results" },
+  ucl: { name: "UEFA.com", url: "https://www.uefa.com/uefachampionsleague/fixtures-results/" },
+};
+
+export const europeanSoccerOfficialProvider: LinkProvider = {
+  id: "european-soccer-official",
+  name: "Official competition sites",
+  providerType: "official",
+  leagues: ["epl", "laliga", "bundesliga", "seriea", "ligue1", "ucl"],
+  async resolve(game) {
+    const site = EUROPEAN_OFFICIAL_SITES[game.league.toLowerCase()];
+    if (!site) return [];
+
+    return [{
+      id: `${site.name.toLowerCase().replace(/\W+/g, "-")}-results`,
+      provider: site.name,
+      providerType: "official",
+      league: game.league,
+      url: site.url,
+      description: `Official ${site.name} results - ${game.awayTeam} @ ${game.homeTeam}`,
+      linkType: "search",
+    }];
+  },
+};
+
+// ESPN site paths where they differ from our league ID
+const ESPN_WEB_PATHS: Record<string, string> = {
+  ncaam: "mens-college-basketball",
+  ncaaw: "womens-college-basketball",
+  ncaaf: "college-football",
+};
+
+// ESPN - every league, keyed off the ESPN game ID from the scoreboard
+export const espnProvider: LinkProvider = {
+  id: "espn",
+  name: "ESPN",
+  providerType: "third-party",
+  leagues: "all",
+  async resolve(game) {
+    const leagueId = game.league.toLowerCase();
+    const league = ESPN_WEB_PATHS[leagueId] || leagueId;
+
+    // ESPN uses different URL patterns for different sports
+    // Soccer uses /match/ while other sports use /boxscore/
+    if ((SOCCER_LEAGUES as string[]).includes(leagueId)) {
+      return [
+        {
+          id: "espn-match-stats",
+          provider: "ESPN Match Stats",
+          providerType: "third-party",
+          league: game.league,
+          url: `https://www.espn.com/soccer/match/_/gameId/${game.espnGameId}`,
+          description: `ESPN ${game.league} match stats - ${game.awayTeam} @ ${game.homeTeam}`,
+          linkType: "direct",
+        },
+        {
+          id: "espn-match-summary",
+          provider: "ESPN Match Summary",
+          providerType: "third-party",
+          league: game.league,
+          url: `https://www.espn.com/soccer/match/_/gameId/${game.espnGameId}/statistics`,
+          description: `ESPN ${game.league} match statistics`,
+          linkType: "direct",
+        },
+      ];
+    }
+
+    // Other sports (NBA, MLB, NFL, NHL, WNBA, college) use /boxscore/
+    return [
+      {
+        id: "espn-box-score",
+        provider: "ESPN Box Score",
+        providerType: "third-party",
+        league: game.league,
+        url: `https://www.espn.com/${league}/boxscore/_/gameId/${game.espnGameId}`,
+        description: `ESPN ${game.league} box score - ${game.awayTeam} @ ${game.homeTeam}`,
+        linkType: "direct",
+      },
+      {
+        id: "espn-game-summary",
+        provider: "ESPN Game Summary",
+        providerType: "third-party",
+        league: game.league,
+        url: `https://www.espn.com/${league}/game/_/gameId/${game.espnGameId}`,
+        description: `ESPN ${game.league} game summary with all stats`,
+        linkType: "direct",
+      },
+      {
+        id: "espn-play-by-play",
+        provider: "ESPN Play-by-Play",
+        providerType: "third-party",
+        league: game.league,
+        url: `https://www.espn.com/${league}/playbyplay/_/gameId/${game.espnGameId}`,
+        description: `ESPN ${game.league} play-by-play details`,
+        linkType: "direct",
+      },
+    ];
+  },
+};
+
+// Basketball Reference - date + home team code
+export const basketballReferenceProvider: LinkProvider = {
+  id: "basketball-reference",
+  name: "Basketball Reference",
+  providerType: "third-party",
+  leagues: ["nba"],
+  async resolve(game) {
+    const [year, month, day] = game.gameDate.split("-");
+    const brDate = `${year}${month}${day}`;
+    const homeAbbr = sportsReferenceCode("nba", game.homeTeamAbbr, game.gameDate);
+
+    return [{
+      id: "bbref-boxscore",
+      provider: "Basketball Reference",
+      providerType: "third-party",
+      league: "NBA",
+      url: `https://www.basketball-reference.com/boxscores/${brDate}0${homeAbbr}.html`,
+      description: `Basketball Reference box score - ${game.awayTeam} @ ${game.homeTeam}`,
+      linkType: "direct",
+    }];
+  },
+};
+
+// Sports-Reference team code for an ESPN abbreviation, as of the game's season
+// (e.g. the Nets are "NJN" before 2012 and "BRK" after). Unknown teams keep the ESPN code.
+function sportsReferenceCode(league: string, espnAbbr: string, date: string): string {
+  const season = seasonForDate(league, date);
+  const team = findTeam(league, espnAbbr, season);
+  return team ? teamIdentity(team, season).sportsReferenceCode : espnAbbr.toUpperCase();
+}
+
+// Baseball Reference - per-game page, home team code + doubleheader game number
+export const baseballReferenceProvider: LinkProvider = {
+  id: "baseball-reference",
+  name: "Baseball Reference",
+  providerType: "third-party",
+  leagues: ["mlb"],
+  async resolve(game) {
+    const [year, month, day] = game.gameDate.split("-");
+    const homeCode = sportsReferenceCode("mlb", game.homeTeamAbbr, game.gameDate);
+    // 0 for a single game, 1 or 2 for the games of a doubleheader
+    const gameNumber = game.gameNumber ?? 0;
+
+    return [{
+      id: "bref-boxscore",
+      provider: "Baseball Reference",
+      providerType: "third-party",
+      league: "MLB",
+      url: `https://www.baseball-reference.com/boxes/${homeCode}/${homeCode}${year}${month}${day}${gameNumber}.shtml`,
+      description: `Baseball Reference box score - ${game.awayTeam} @ ${game.homeTeam}${game.gameNumber ? ` (Game ${game.gameNumber})` : ""}`,
+      linkType: "direct",
+    }];
+  },
+};
+
+// Basketball Reference (WNBA) - date + home team code under /wnba/
+export const wnbaReferenceProvider: LinkProvider = {
+  id: "basketball-reference-wnba",
+  name: "Basketball Reference",
+  providerType: "third-party",
+  leagues: ["wnba"],
+  async resolve(game) {
+    const [year, month, day] = game.gameDate.split("-");
+    const homeCode = sportsReferenceCode("wnba", game.homeTeamAbbr, game.gameDate);
+
+    return [{
+      id: "bbref-wnba-boxscore",
+      provider: "Basketball Reference",
+      providerType: "third-party",
+      league: "WNBA",
+      url: `https://www.basketball-reference.com/wnba/boxscores/${year}${month}${day}0${homeCode}.html`,
+      description: `Basketball Reference box score - ${game.awayTeam} @ ${game.homeTeam}`,
+      linkType: "direct",
+    }];
+  },
+};
+
+// Sports Reference college box score pages include the tip-off hour, which ESPN's
+// scoreboard date doesn't give us reliably, so link the day's listing instead.
+// Women's college basketball is out of scope: Sports Reference covers it apart from
+// these sections, and no link is built for it.
+const COLLEGE_REFERENCE_SECTIONS: Record<string, { path: string; name: string }> = {
+  ncaam: { path: "cbb", name: "College Basketball Reference" },
+  ncaaf: { path: "cfb", name: "College Football Reference" },
+};
+
+export const collegeReferenceProvider: LinkProvider = {
+  id: "sports-reference-college",
+  name: "Sports Reference",
+  providerType: "third-party",
+  leagues: ["ncaam", "ncaaf"],
+  async resolve(game) {
+    const section = COLLEGE_REFERENCE_SECTIONS[game.league.toLowerCase()];
+    if (!section) return [];
+
+    const [year, month, day] = game.gameDate.split("-");
+
+    return [{
+      id: `sr-${section.path}-boxscores`,
+      provider: section.name,
+      providerType: "third-party",
+      league: game.league,
+      url: `https://www.sports-reference.com/${section.path}/boxscores/index.cgi?month=${Number(month)}&day=${Number(day)}&year=${year}`,
+      description: `${section.name} games on ${formatDateForDisplay(game.gameDate)}`,
+      linkType: "search",
+    }];
+  },
+};
+
+// Pro-Football-Reference - date + lowercase home team code
+export const proFootballReferenceProvider: LinkProvider = {
+  id: "pro-football-reference",
+  name: "Pro-Football-Reference",
+  providerType: "third-party",
+  leagues: ["nfl"],
+  async resolve(game) {
+    const [year, month, day] = game.gameDate.split("-");
+    const homeCode = sportsReferenceCode("nfl", game.homeTeamAbbr, game.gameDate).toLowerCase();
+
+    return [{
+      id: "pfr-boxscore",
+      provider: "Pro-Football-Reference",
+      providerType: "third-party",
+      league: "NFL",
+      url: `https://www.pro-football-reference.com/boxscores/${year}${month}${day}0${homeCode}.htm`,
+      description: `Pro-Football-Reference box score - ${game.awayTeam} @ ${game.homeTeam}`,
+      linkType: "direct",
+    }];
+  },
+};
+
+// Hockey-Reference - date + home team code
+export const hockeyReferenceProvider: LinkProvider = {
+  id: "hockey-reference",
+  name: "Hockey-Reference",
+  providerType: "third-party",
+  leagues: ["nhl"],
+  async resolve(game) {
+    const [year, month, day] = game.gameDate.split("-");
+    const homeCode = sportsReferenceCode("nhl", game.homeTeamAbbr, game.gameDate);
+
+    return [{
+      id: "hkref-boxscore",
+      provider: "Hockey-Reference",
+      providerType: "third-party",
+      league: "NHL",
+      url: `https://www.hockey-reference.com/boxscores/${year}${month}${day}0${homeCode}.html`,
+      description: `Hockey-Reference box score - ${game.awayTeam} @ ${game.homeTeam}`,
+      linkType: "direct",
+    }];
+  },
+};
+
+// FBref - match pages are keyed by opaque hash IDs, so link the day's match listing
+export const fbrefProvider: LinkProvider = {
+  id: "fbref",
+  name: "FBref",
+  providerType: "third-party",
+  leagues: SOCCER_LEAGUES,
+  async resolve(game) {
+    return [{
+      id: "fbref-matches",
+      provider: "FBref",
+      providerType: "third-party",
+      league: game.league,
+      url: `https://fbref.com/en/matches/${game.gameDate}`,
+      description: `FBref match reports on ${formatDateForDisplay(game.gameDate)}`,
+      linkType: "search",
+    }];
+  },
+};
+
+// SofaScore - search only, no stable game URL we can build
+export const sofaScoreProvider: LinkProvider = {
+  id: "sofascore",
+  name: "SofaScore",
+  providerType: "third-party",
+  leagues: "all",
+  async resolve(game) {
+    return [{
+      id: "sofascore-search",
+      provider: "SofaScore",
+      providerType: "third-party",
+      league: game.league,
+      url: `https://www.sofascore.com/search?q=${encodeURIComponent(game.homeTeam)}`,
+      description: "Search SofaScore for detailed match statistics",
+      linkType: "search",
+    }];
+  },
+};
+
+// Registration order is display order within each provider type
+[
+  nbaComProvider,
+  mlbComProvider,
+  wnbaComProvider,
+  ncaaComProvider,
+  nflComProvider,
+  nhlComProvider,
+  mlsSoccerProvider,
+  europeanSoccerOfficialProvider,
+  espnProvider,
+  basketballReferenceProvider,
+  wnbaReferenceProvider,
+  collegeReferenceProvider,
+  baseballReferenceProvider,
+  proFootballReferenceProvider,
+  hockeyReferenceProvider,
+  fbrefProvider,
+  sofaScoreProvider,
+].forEach(registerLinkProvider);
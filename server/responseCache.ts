@@ -0,0 +1,136 @@
+// Response cache for upstream scoreboard and schedule calls, keyed by URL.
+// Entries live in Postgres when DATABASE_URL is set, otherwise in memory.
+
+import { eq, lt } from "drizzle-orm";
+import { responseCache } from "@shared/schema";
+import { db, type Database } from "./db";
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+// Memory backend size cap; the oldest entries are evicted first
+const MEMORY_CACHE_MAX_ENTRIES = 500;
+
+// Expired Postgres rows are pruned once every this many writes
+const DB_PRUNE_INTERVAL = 100;
+
+interface CacheBackend {
+  get(key: string): Promise<string | null>;
+  set(key: string, body: string, ttlMs: number): Promise<void>;
+}
+
+class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, { body: string; expiresAt: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.body;
+  }
+
+  async set(key: string, body: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { body, expiresAt: Date.now() + ttlMs });
+
+    if (this.entries.size > MEMORY_CACHE_MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+}
+
+class DbCacheBackend implements CacheBackend {
+  private writes = 0;
+
+  constructor(private database: Database) {}
+
+  async get(key: string): Promise<string | null> {
+    const [entry] = await this.database
+      .select()
+      .from(responseCache)
+      .where(eq(responseCache.key, key));
+    if (!entry || entry.expiresAt.getTime() <= Date.now()) return null;
+    return entry.body;
+  }
+
+  async set(key: string, body: string, ttlMs: number): Promise<void> {
+    const expiresAt = new Date(Date.now() + ttlMs);
+    await this.database
+      .insert(responseCache)
+      .values({ key, body, expiresAt })
+      .onConflictDoUpdate({ target: responseCache.key, set: { body, expiresAt } });
+
+    if (++this.writes % DB_PRUNE_INTERVAL === 0) {
+      await this.database.delete(responseCache).where(lt(responseCache.expiresAt, new Date()));
+    }
+  }
+}
+
+const backend: CacheBackend = db ? new DbCacheBackend(db) : new MemoryCacheBackend();
+const stats = { hits: 0, misses: 0 };
+
+// Hits and misses since startup; the server logs them periodically
+export function getCacheStats(): { hits: number; misses: number } {
+  return { ...stats };
+}
+
+function easternToday(): string {
+  return new Date().toLocaleDateString("en-CA", { timeZone: "America/New_York" });
+}
+
+// TTL for data about a given date (YYYY-MM-DD): games before yesterday are final and
+// rarely change, yesterday's late games may still be wrapping up, and today's are live
+export function cacheTtlForDate(date: string): number {
+  const today = easternToday();
+  const yesterday = new Date(Date.parse(`${today}T00:00:00Z`) - 24 * HOUR).toISOString().substring(0, 10);
+
+  if (date < yesterday) return 7 * 24 * HOUR;
+  if (date === yesterday) return 30 * MINUTE;
+  if (date === today) return MINUTE;
+  // Future schedules only change for postponements
+  return HOUR;
+}
+
+// TTL for date-independent feeds such as full-season schedules
+export const SCHEDULE_CACHE_TTL = 6 * HOUR;
+// TTL for feeds that only ever describe today, such as live scoreboards
+export const LIVE_CACHE_TTL = MINUTE;
+
+// Fetch a URL through the cache. Only successful responses are cached; a cache read
+// or write failure falls through to the upstream call rather than failing the request.
+export async function fetchCached(
+  url: string,
+  ttlMs: number,
+  fetcher: (url: string) => Promise<Response>,
+): Promise<Response> {
+  try {
+    const cached = await backend.get(url);
+    if (cached !== null) {
+      stats.hits++;
+      return new Response(cached, {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  } catch (error) {
+    console.error("Cache read error:", error);
+  }
+
+  stats.misses++;
+
+  const response = await fetcher(url);
+  if (!response.ok) return response;
+
+  const body = await response.text();
+  try {
+    await backend.set(url, body, ttlMs);
+  } catch (error) {
+    console.error("Cache write error:", error);
+  }
+
+  return new Response(body, { status: response.status, headers: response.headers });
+}
@@ -1,14 +1,32 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { searchQuerySchema } from "@shared/schema";
+import { setupAuth, requireAuth } from "./auth";
+import { fetchBoxScore } from "./boxScore";
+import {
+  EXPORT_FORMATS,
+  boxScoreToRows,
+  toCsv,
+  toXlsx,
+  exportFileName,
+  type ExportFormat,
+} from "./boxScoreExport";
+import {
+  searchQuerySchema,
+  insertFavoriteSchema,
+  LEAGUES,
+  type Favorite,
+  type FavoriteSearchResult,
+  type SearchQuery,
+} from "@shared/schema";
 import { z } from "zod";
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
-  
+  setupAuth(app);
+
   // Search API endpoint to generate box score links
   app.post("/api/search", async (req, res) => {
     try {
@@ -22,6 +40,14 @@ export async function registerRoutes(
       }
       
       const searchResult = await storage.generateBoxScoreLinks(result.data);
+
+      // A history write failure shouldn't fail the search itself
+      try {
+        await storage.saveSearch(req.user?.id ?? null, result.data, searchResult);
+      } catch (error) {
+        console.error("Search history error:", error);
+      }
+
       res.json(searchResult);
     } catch (error) {
       console.error("Search error:", error);
@@ -29,5 +55,170 @@ export async function registerRoutes(
     }
   });
 
+  // Search history endpoint - the signed-in user's searches (or the signed-out ones),
+  // most recent first
+  app.get("/api/history", async (req, res) => {
+    try {
+      const limit = z.coerce.number().int().min(1).max(100).catch(20).parse(req.query.limit ?? 20);
+      const history = await storage.getSearchHistory(req.user?.id ?? null, limit);
+      res.json(history);
+    } catch (error) {
+      console.error("History error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Favorites endpoints - saved teams and players for the signed-in user
+  app.get("/api/favorites", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getFavorites(req.user!.id));
+    } catch (error) {
+      console.error("Favorites error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/favorites", requireAuth, async (req, res) => {
+    try {
+      const result = insertFavoriteSchema.safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid favorite",
+          errors: result.error.flatten().fieldErrors
+        });
+      }
+
+      const favorite = await storage.addFavorite(req.user!.id, result.data);
+      res.status(201).json(favorite);
+    } catch (error) {
+      console.error("Favorites error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/favorites/:id", requireAuth, async (req, res) => {
+    try {
+      const id = z.coerce.number().int().positive().safeParse(req.params.id);
+      if (!id.success) {
+        return res.status(400).json({ message: "Invalid favorite ID" });
+      }
+
+      const removed = await storage.removeFavorite(req.user!.id, id.data);
+      if (!removed) {
+        return res.status(404).json({ message: "Favorite not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Favorites error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Runs one search per favorite for the given date (the client sends yesterday)
+  app.post("/api/favorites/search", requireAuth, async (req, res) => {
+    try {
+      const result = z.object({ gameDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/) }).safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid favorites search",
+          errors: result.error.flatten().fieldErrors
+        });
+      }
+
+      const favorites = await storage.getFavorites(req.user!.id);
+
+      // Each favorite's search runs under its own deadline, so they run side by side
+      const results: FavoriteSearchResult[] = await Promise.all(
+        favorites.map(async (favorite) => ({
+          favorite,
+          response: await storage.generateBoxScoreLinks(favoriteSearchQuery(favorite, result.data.gameDate)),
+        })),
+      );
+
+      res.json(results);
+    } catch (error) {
+      console.error("Favorites search error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Box score API endpoint - normalized ESPN box score for a found game
+  app.get("/api/boxscore/:league/:espnGameId", async (req, res) => {
+    try {
+      const { league, espnGameId } = req.params;
+
+      if (!LEAGUES.some((l) => l.id === league.toLowerCase()) || !/^\d+$/.test(espnGameId)) {
+        return res.status(400).json({ message: "Invalid league or game ID" });
+      }
+
+      const boxScore = await fetchBoxScore(league, espnGameId);
+      if (!boxScore) {
+        return res.status(404).json({ message: "Box score not found" });
+      }
+
+      res.json(boxScore);
+    } catch (error) {
+      console.error("Box score error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Box score export endpoint - player box score as CSV, JSON or XLSX
+  app.get("/api/boxscore/:league/:espnGameId/export/:format", async (req, res) => {
+    try {
+      const { league, espnGameId } = req.params;
+      const format = req.params.format.toLowerCase() as ExportFormat;
+
+      if (
+        !LEAGUES.some((l) => l.id === league.toLowerCase()) ||
+        !/^\d+$/.test(espnGameId) ||
+        !EXPORT_FORMATS.includes(format)
+      ) {
+        return res.status(400).json({ message: "Invalid league, game ID or export format" });
+      }
+
+      const boxScore = await fetchBoxScore(league, espnGameId);
+      if (!boxScore) {
+        return res.status(404).json({ message: "Box score not found" });
+      }
+
+      const { columns, rows } = boxScoreToRows(boxScore);
+      res.attachment(exportFileName(boxScore, format));
+
+      if (format === "csv") {
+        res.type("text/csv").send(toCsv(columns, rows));
+      } else if (format === "xlsx") {
+        res.send(toXlsx(boxScore, columns, rows));
+      } else {
+        res.json({
+          espnGameId: boxScore.espnGameId,
+          league: boxScore.league,
+          gameDate: boxScore.gameDate,
+          teams: boxScore.teams,
+          columns,
+          players: rows,
+        });
+      }
+    } catch (error) {
+      console.error("Box score export error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   return httpServer;
 }
+
+function favoriteSearchQuery(favorite: Favorite, gameDate: string): SearchQuery {
+  return {
+    playerName: favorite.kind === "player" ? favorite.name : "",
+    teamName: favorite.kind === "team" ? favorite.name : "",
+    opponentName: "",
+    gameDate,
+    startDate: "",
+    endDate: "",
+    playerId: favorite.playerId,
+    playerLeague: favorite.playerLeague,
+  };
+}
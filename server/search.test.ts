@@ -0,0 +1,239 @@
+// End-to-end tests for POST /api/search and /api/favorites/search against the mock
+// sports-data server (script/mockSportsServer.ts and its seed). The mock listens on a
+// free port and the upstream base URLs point at it before the server modules are loaded.
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import express from "express";
+import session from "express-session";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import type { FavoriteSearchResult, GameResult, SearchQuery } from "@shared/schema";
+import { createMockServer, loadSeed } from "../script/mockSportsServer";
+
+let mockServer: Server;
+let appServer: Server;
+let baseUrl: string;
+
+function listen(server: Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+  });
+}
+
+beforeAll(async () => {
+  mockServer = createServer(createMockServer(await loadSeed(), { log: false }));
+  const mockUrl = await listen(mockServer);
+
+  process.env.ESPN_SITE_API_BASE = `${mockUrl}/espn-site`;
+  process.env.ESPN_WEB_API_BASE = `${mockUrl}/espn-web`;
+  process.env.NBA_CDN_BASE = `${mockUrl}/nba-cdn`;
+  process.env.WNBA_CDN_BASE = `${mockUrl}/wnba-cdn`;
+  process.env.NHL_API_BASE = `${mockUrl}/nhl-api`;
+  process.env.MLB_STATS_API_BASE = `${mockUrl}/mlb-stats`;
+
+  // sportsApi reads the base URLs when it loads, so the routes are imported only now
+  const { registerRoutes } = await import("./routes");
+  const { storage } = await import("./storage");
+
+  const app = express();
+  app.use(express.json());
+  app.use(session({ secret: "test", resave: false, saveUninitialized: false, store: storage.sessionStore }));
+  appServer = createServer(app);
+  await registerRoutes(appServer, app);
+  baseUrl = await listen(appServer);
+});
+
+afterAll(async () => {
+  await Promise.all(
+    [appServer, mockServer].map((server) => new Promise((resolve) => server?.close(resolve))),
+  );
+});
+
+async function search(query: Partial<SearchQuery>): Promise<{ status: number; body: any }> {
+  const response = await fetch(`${baseUrl}/api/search`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      playerName: "",
+      teamName: "",
+      opponentName: "",
+      gameDate: "",
+      startDate: "",
+      endDate: "",
+      ...query,
+    }),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+function linkUrl(game: GameResult, linkId: string): string | undefined {
+  return game.links.find((link) => link.id === linkId)?.url;
+}
+
+describe("POST /api/search", () => {
+  it("returns both games of a doubleheader, each with its own official links", async () => {
+    const { status, body } = await search({ teamName: "Yankees", gameDate: "2024-06-15" });
+
+    expect(status).toBe(200);
+    expect(body.type).toBe("results");
+    expect(body.games.map((g: GameResult) => [g.espnGameId, g.gameNumber])).toEqual([
+      ["401569201", 1],
+      ["401569202", 2],
+    ]);
+    expect(linkUrl(body.games[0], "mlb-com-boxscore")).toBe(
+      "https://www.mlb.com/gameday/red-sox-vs-yankees/2024/06/15/745201/final/box",
+    );
+    expect(linkUrl(body.games[1], "mlb-com-boxscore")).toBe(
+      "https://www.mlb.com/gameday/red-sox-vs-yankees/2024/06/15/745202/final/box",
+    );
+    expect(linkUrl(body.games[1], "bref-boxscore")).toBe(
+      "https://www.baseball-reference.com/boxes/NYA/NYA202406152.shtml",
+    );
+  });
+
+  it("finds every head-to-head meeting in the season without a date", async () => {
+    const { body } = await search({ teamName: "Lakers", opponentName: "Celtics" });
+
+    expect(body.type).toBe("results");
+    expect(body.games.map((g: GameResult) => [g.gameDate, g.awayTeam, g.homeTeam])).toEqual([
+      ["2024-01-10", "Boston Celtics", "Los Angeles Lakers"],
+      ["2024-01-13", "Los Angeles Lakers", "Boston Celtics"],
+    ]);
+    expect(linkUrl(body.games[0], "nba-com-boxscore")).toBe(
+      "https://www.nba.com/game/bos-vs-lal-0022300511/box-score",
+    );
+  });
+
+  it("dates games by their Eastern start time", async () => {
+    const { body } = await search({ teamName: "Warriors", gameDate: "2024-01-10" });
+
+    expect(body.games).toHaveLength(1);
+    expect(body.games[0].gameDate).toBe("2024-01-10");
+    // ESPN's GS and NY are GSW and NYK on NBA.com
+    expect(linkUrl(body.games[0], "nba-com-boxscore")).toBe(
+      "https://www.nba.com/game/nyk-vs-gsw-0022300512/box-score",
+    );
+  });
+
+  it("resolves a player-only search to the player's team and reports each appearance", async () => {
+    const { body } = await search({ playerName: "Rafael Devers", gameDate: "2024-06-15" });
+
+    expect(body.type).toBe("results");
+    expect(body.matchInfo.resolvedFromPlayer).toBe(true);
+    expect(body.matchInfo.teamName).toBe("Boston Red Sox");
+    expect(body.games).toHaveLength(2);
+    expect(body.games.map((g: GameResult) => g.playerAppearance?.status)).toEqual(["played", "played"]);
+  });
+
+  it("reports a rostered player who sat out one game of a doubleheader", async () => {
+    const { body } = await search({ playerName: "Aaron Judge", gameDate: "2024-06-15" });
+
+    expect(body.games.map((g: GameResult) => g.playerAppearance?.status)).toEqual(["played", "inactive"]);
+  });
+
+  it("doesn't call a football player absent just for having no stats", async () => {
+    const { body } = await search({ playerName: "Creed Humphrey", teamName: "Chiefs", gameDate: "2024-09-05" });
+
+    expect(body.games).toHaveLength(1);
+    expect(body.games[0].playerAppearance).toEqual({ playerName: "Creed Humphrey", status: "unknown" });
+  });
+
+  it("builds NHL.com links with the NHL's own team codes", async () => {
+    const { body } = await search({ teamName: "Devils", gameDate: "2024-01-13" });
+
+    expect(body.games).toHaveLength(1);
+    expect(linkUrl(body.games[0], "nhl-com-boxscore")).toBe(
+      "https://www.nhl.com/gamecenter/njd-vs-nyr/2024/01/13/2023020650/boxscore",
+    );
+  });
+
+  it("builds WNBA.com links from the WNBA schedule", async () => {
+    const { body } = await search({ teamName: "Liberty", gameDate: "2024-06-11" });
+
+    expect(body.games).toHaveLength(1);
+    expect(linkUrl(body.games[0], "wnba-com-boxscore")).toBe("https://www.wnba.com/game/1022400071/boxscore");
+  });
+
+  it("builds MLS match-center links from the ESPN soccer scoreboard", async () => {
+    const { body } = await search({ teamName: "Inter Miami", gameDate: "2024-02-21" });
+
+    expect(body.games).toHaveLength(1);
+    expect(linkUrl(body.games[0], "mlssoccer-com-boxscore")).toBe(
+      "https://www.mlssoccer.com/competitions/mls-regular-season/2024/matches/miavsrsl-02-21-2024/boxscore",
+    );
+  });
+
+  it("searches a misspelled team as the team it is close to", async () => {
+    const { body } = await search({ teamName: "Celitcs", gameDate: "2024-01-10" });
+
+    expect(body.type).toBe("results");
+    expect(body.matchInfo.correctedFrom).toBe("Celitcs");
+    expect(body.games.map((g: GameResult) => g.espnGameId)).toEqual(["401585101"]);
+  });
+
+  it("asks which team was meant when a name is close to several", async () => {
+    const { body } = await search({ teamName: "Kngs", gameDate: "2024-01-10" });
+
+    expect(body.type).toBe("team-candidates");
+    expect(body.field).toBe("teamName");
+    expect(body.candidates.map((c: { teamId: string }) => c.teamId).sort()).toEqual(["nba-sac", "nhl-lak"]);
+  });
+
+  it("falls back to search links when the team has no game that day", async () => {
+    const { body } = await search({ teamName: "Celtics", gameDate: "2024-01-11" });
+
+    expect(body.type).toBe("results");
+    expect(body.games).toEqual([]);
+    expect(body.links.some((link: { id: string }) => link.id === "google-search")).toBe(true);
+  });
+
+  it("rejects a query without a team or player", async () => {
+    const { status } = await search({ gameDate: "2024-01-10" });
+
+    expect(status).toBe(400);
+  });
+});
+
+describe("POST /api/favorites/search", () => {
+  // Registers a new account and returns its session cookie
+  async function signUp(username: string): Promise<string> {
+    const response = await fetch(`${baseUrl}/api/register`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username, password: "password123" }),
+    });
+    expect(response.status).toBe(201);
+    return response.headers.get("set-cookie")!.split(";")[0];
+  }
+
+  async function post(path: string, cookie: string, body: object): Promise<{ status: number; body: any }> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Cookie: cookie },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  it("searches every favorite for the date, in the order they were added", async () => {
+    const cookie = await signUp("favorites-fan");
+    for (const name of ["Yankees", "Celtics", "Lakers"]) {
+      expect((await post("/api/favorites", cookie, { kind: "team", name })).status).toBe(201);
+    }
+
+    const { status, body } = await post("/api/favorites/search", cookie, { gameDate: "2024-06-15" });
+
+    expect(status).toBe(200);
+    expect(body.map((r: FavoriteSearchResult) => r.favorite.name)).toEqual(["Yankees", "Celtics", "Lakers"]);
+    expect(body[0].response.games).toHaveLength(2);
+    expect(body[1].response.games).toEqual([]);
+  });
+
+  it("requires a signed-in user", async () => {
+    const { status } = await post("/api/favorites/search", "", { gameDate: "2024-06-15" });
+
+    expect(status).toBe(401);
+  });
+});
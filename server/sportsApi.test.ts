@@ -0,0 +1,109 @@
+// Matching ESPN scoreboard teams against a searched name (teamMatches) and ESPN
+// abbreviations against NBA.com tricodes (abbrMatches).
+
+import { describe, expect, it } from "vitest";
+import { TEAMS, teamIdentity, type Team } from "@shared/teams";
+import { abbrMatches, teamMatches } from "./sportsApi";
+
+// A date in the team's current era - the registry's newest teams start in 2026
+function currentDate(team: Team): string {
+  return `${Math.max(team.from ?? 2024, 2024)}-07-01`;
+}
+
+describe("teamMatches", () => {
+  it.each(TEAMS.map((team) => [team.id, team] as const))("%s matches its names and codes", (_id, team) => {
+    const date = currentDate(team);
+    const { name, nickname, espnAbbr, leagueAbbr, aliases } = teamIdentity(team);
+    const matches = (search: string) => teamMatches(search, team.league, date, espnAbbr, name);
+
+    expect(matches(name)).toBe(true);
+    expect(matches(nickname)).toBe(true);
+    expect(matches(name.toUpperCase())).toBe(true);
+    for (const alias of aliases || []) {
+      expect(matches(alias)).toBe(true);
+    }
+    if (espnAbbr) {
+      expect(matches(espnAbbr)).toBe(true);
+      expect(matches(leagueAbbr)).toBe(true);
+      // ESPN's scoreboards carry the abbreviation; the name alone still matches
+      expect(teamMatches(nickname, team.league, date, "", name)).toBe(true);
+    }
+  });
+
+  it.each([
+    // search, league, date, ESPN abbreviation, ESPN display name, expected
+    ["Celtics", "nba", "2024-01-10", "BOS", "Boston Celtics", true],
+    ["Boston Celtics", "nba", "2024-01-10", "BOS", "Boston Celtics", true],
+    ["boston", "nba", "2024-01-10", "BOS", "Boston Celtics", true],
+    ["Lakers", "nba", "2024-01-10", "LAC", "LA Clippers", false],
+    ["Red Sox", "mlb", "2024-06-15", "CHW", "Chicago White Sox", false],
+    ["Sox", "mlb", "2024-06-15", "BOS", "Boston Red Sox", false],
+    // ESPN and league codes for the same team
+    ["GS", "nba", "2024-01-10", "GS", "Golden State Warriors", true],
+    ["GSW", "nba", "2024-01-10", "GS", "Golden State Warriors", true],
+    ["NY", "nba", "2024-01-10", "NY", "New York Knicks", true],
+    ["NYK", "nba", "2024-01-10", "NY", "New York Knicks", true],
+    ["UTAH", "nba", "2024-01-10", "UTAH", "Utah Jazz", true],
+    ["UTA", "nba", "2024-01-10", "UTAH", "Utah Jazz", true],
+    ["NJ", "nhl", "2024-01-13", "NJ", "New Jersey Devils", true],
+    ["NJD", "nhl", "2024-01-13", "NJ", "New Jersey Devils", true],
+    // One nickname, two leagues - the league decides
+    ["Cardinals", "mlb", "2024-06-16", "STL", "St. Louis Cardinals", true],
+    ["Cardinals", "nfl", "2024-09-08", "ARI", "Arizona Cardinals", true],
+    ["Rangers", "mlb", "2024-06-15", "TEX", "Texas Rangers", true],
+    ["Rangers", "nhl", "2024-01-13", "NYR", "New York Rangers", true],
+    ["Giants", "nfl", "2024-09-08", "NYG", "New York Giants", true],
+    ["Giants", "nfl", "2024-09-08", "NYJ", "New York Jets", false],
+    ["Jets", "nhl", "2024-01-13", "WPG", "Winnipeg Jets", true],
+    ["Kings", "nba", "2024-01-10", "SAC", "Sacramento Kings", true],
+    ["Panthers", "nhl", "2024-01-13", "FLA", "Florida Panthers", true],
+    ["Wolves", "nba", "2024-01-10", "MIN", "Minnesota Timberwolves", true],
+    ["Wolves", "epl", "2024-01-13", "WOL", "Wolverhampton Wanderers", true],
+    // Names by season: renames and relocations
+    ["Indians", "mlb", "2019-07-01", "CLE", "Cleveland Indians", true],
+    ["Indians", "mlb", "2024-07-01", "CLE", "Cleveland Guardians", false],
+    ["Guardians", "mlb", "2024-07-01", "CLE", "Cleveland Guardians", true],
+    ["Redskins", "nfl", "2019-09-08", "WSH", "Washington Redskins", true],
+    ["Football Team", "nfl", "2021-09-12", "WSH", "Washington Football Team", true],
+    ["Commanders", "nfl", "2023-09-10", "WSH", "Washington Commanders", true],
+    ["Redskins", "nfl", "2023-09-10", "WSH", "Washington Commanders", false],
+    ["Coyotes", "nhl", "2023-10-12", "ARI", "Arizona Coyotes", true],
+    ["Utah", "nhl", "2024-10-08", "UTAH", "Utah Hockey Club", true],
+    ["Mammoth", "nhl", "2025-10-08", "UTAH", "Utah Mammoth", true],
+    ["Coyotes", "nhl", "2025-10-08", "UTAH", "Utah Mammoth", false],
+    ["Hornets", "nba", "2010-01-10", "NO", "New Orleans Hornets", true],
+    ["Pelicans", "nba", "2024-01-10", "NO", "New Orleans Pelicans", true],
+    // Search length thresholds for partial matches
+    ["Celt", "nba", "2024-01-10", "BOS", "Boston Celtics", true],
+    ["Cel", "nba", "2024-01-10", "BOS", "Boston Celtics", false],
+    ["los angeles lakers tonight", "nba", "2024-01-10", "LAL", "Los Angeles Lakers", true],
+    // Teams outside the registry fall back to ESPN's own name and abbreviation
+    ["Duke", "ncaam", "2024-01-10", "DUKE", "Duke Blue Devils", true],
+    ["Blue Devils", "ncaam", "2024-01-10", "DUKE", "Duke Blue Devils", true],
+    ["UNC", "ncaam", "2024-01-10", "UNC", "North Carolina Tar Heels", true],
+    ["Duke", "ncaam", "2024-01-10", "UNC", "North Carolina Tar Heels", false],
+    ["", "nba", "2024-01-10", "BOS", "Boston Celtics", false],
+  ])("%s in %s on %s vs %s %s is %s", (search, league, date, abbr, displayName, expected) => {
+    expect(teamMatches(search, league, date, abbr, displayName)).toBe(expected);
+  });
+});
+
+describe("abbrMatches", () => {
+  it.each([
+    ["GS", "GSW", "2024-01-10", true],
+    ["NY", "NYK", "2024-01-10", true],
+    ["UTAH", "UTA", "2024-01-10", true],
+    ["SA", "SAS", "2024-01-10", true],
+    ["NO", "NOP", "2024-01-10", true],
+    ["NO", "NOH", "2010-01-10", true],
+    ["NO", "NOP", "2010-01-10", false],
+    ["LAL", "LAL", "2024-01-10", true],
+    ["lal", "LAL", "2024-01-10", true],
+    ["LAL", "LAC", "2024-01-10", false],
+    ["NY", "BKN", "2024-01-10", false],
+    ["", "LAL", "2024-01-10", false],
+    ["LAL", "", "2024-01-10", false],
+  ])("ESPN %s and NBA.com %s on %s: %s", (espnAbbr, nbaAbbr, date, expected) => {
+    expect(abbrMatches(espnAbbr, nbaAbbr, date)).toBe(expected);
+  });
+});
@@ -1,54 +1,42 @@
 // Sports API integration for fetching real game IDs
 
-// Helper function for fetch with timeout
-async function fetchWithTimeout(url: string, options: RequestInit = {}, timeoutMs: number = 8000): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-  
+import { LEAGUES, type PlayerCandidate, type PlayerAppearance } from "@shared/schema";
+import { cacheTtlForDate, SCHEDULE_CACHE_TTL, LIVE_CACHE_TTL } from "./responseCache";
+import { fetchUpstreamJson, UpstreamHttpError } from "./upstream";
+import { findTeam, seasonForDate, teamIdentity, normalizeTeamText } from "@shared/teams";
+
+// Shared budget for a batch of concurrent upstream lookups (every league, or every link provider)
+export const LOOKUP_DEADLINE_MS = 10000;
+
+// Resolve with the fallback if the promise hasn't settled by the deadline (an epoch ms
+// timestamp shared by a batch of lookups), so one slow upstream can't hold up the rest
+export async function withDeadline<T>(promise: Promise<T>, deadline: number, fallback: T, label: string): Promise<T> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<T>((resolve) => {
+    timeoutId = setTimeout(() => {
+      console.error(`${label} missed the lookup deadline`);
+      resolve(fallback);
+    }, Math.max(deadline - Date.now(), 0));
+  });
+
   try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-    });
+    return await Promise.race([promise, timeout]);
+  } finally {
     clearTimeout(timeoutId);
-    return response;
-  } catch (error: any) {
-    clearTimeout(timeoutId);
-    if (error.name === 'AbortError') {
-      throw new Error(`Request timed out after ${timeoutMs}ms`);
-    }
-    throw error;
   }
 }
 
-// ESPN to NBA abbreviation mapping (ESPN uses different codes for some teams)
-const ESPN_TO_NBA_ABBR: Record<string, string> = {
-  "NO": "NOP",    // New Orleans Pelicans
-  "NY": "NYK",    // New York Knicks
-  "GS": "GSW",    // Golden State Warriors
-  "SA": "SAS",    // San Antonio Spurs
-  "UTAH": "UTA",  // Utah Jazz
-  "PHX": "PHO",   // Phoenix Suns (sometimes)
-  "BKN": "BKN",   // Brooklyn Nets
-  "WSH": "WAS",   // Washington Wizards
-};
-
-// NBA abbreviation to lowercase for URL construction
-const NBA_TEAM_ABBR: Record<string, string> = {
-  "ATL": "atl", "BOS": "bos", "BKN": "bkn", "CHA": "cha", "CHI": "chi",
-  "CLE": "cle", "DAL": "dal", "DEN": "den", "DET": "det", "GSW": "gsw",
-  "HOU": "hou", "IND": "ind", "LAC": "lac", "LAL": "lal", "MEM": "mem",
-  "MIA": "mia", "MIL": "mil", "MIN": "min", "NOP": "nop", "NYK": "nyk",
-  "OKC": "okc", "ORL": "orl", "PHI": "phi", "PHX": "phx", "POR": "por",
-  "SAC": "sac", "SAS": "sas", "TOR": "tor", "UTA": "uta", "WAS": "was",
-  // ESPN abbreviations mapped to NBA lowercase
-  "NO": "nop", "NY": "nyk", "GS": "gsw", "SA": "sas", "UTAH": "uta",
-  "PHO": "phx", "WSH": "was",
-};
+// The league site's own code for an ESPN team abbreviation, as of the game's season
+// (e.g. ESPN's "GS" is "GSW" on NBA.com). Unknown teams keep the ESPN code.
+function officialAbbr(league: string, espnAbbr: string, date: string): string {
+  const season = seasonForDate(league, date);
+  const team = findTeam(league, espnAbbr, season);
+  return (team ? teamIdentity(team, season).leagueAbbr : espnAbbr).toUpperCase();
+}
 
 export function getNbaAbbr(espnAbbr: string): string {
-  const upper = espnAbbr.toUpperCase();
-  return NBA_TEAM_ABBR[upper] || espnAbbr.toLowerCase();
+  const team = findTeam("nba", espnAbbr);
+  return (team ? teamIdentity(team).leagueAbbr : espnAbbr).toLowerCase();
 }
 
 interface ESPNGame {
@@ -56,6 +44,14 @@ interface ESPNGame {
   date: string;
   name: string;
   shortName: string;
+  // Season year/type (1 = preseason, 2 = regular, 3 = postseason) and week, present for week-based sports
+  season?: {
+    year: number;
+    type: number;
+  };
+  week?: {
+    number: number;
+  };
   competitions: Array<{
     id: string;
     competitors: Array<{
@@ -83,23 +79,91 @@ export interface GameInfo {
   awayTeamAbbr: string;
   gameDate: string;
   league: string;
+  // 1 or 2 when the same teams meet twice on the date (MLB doubleheaders)
+  gameNumber?: number;
+  season?: {
+    year: number;
+    type: number;
+    week?: number;
+  };
 }
 
+// Upstream base URLs, overridable so the server can run against the mock sports-data
+// server (script/mockSportsServer.ts) instead of the live feeds
+export const UPSTREAM_BASE_URLS = {
+  espnSite: process.env.ESPN_SITE_API_BASE || "https://site.api.espn.com",
+  espnWeb: process.env.ESPN_WEB_API_BASE || "https://site.web.api.espn.com",
+  nbaCdn: process.env.NBA_CDN_BASE || "https://cdn.nba.com",
+  wnbaCdn: process.env.WNBA_CDN_BASE || "https://cdn.wnba.com",
+  nhlApi: process.env.NHL_API_BASE || "https://api-web.nhle.com",
+  mlbStatsApi: process.env.MLB_STATS_API_BASE || "https://statsapi.mlb.com",
+};
+
+const ESPN_SITE_SPORTS_URL = `${UPSTREAM_BASE_URLS.espnSite}/apis/site/v2/sports`;
+const ESPN_WEB_SPORTS_URL = `${UPSTREAM_BASE_URLS.espnWeb}/apis/common/v3/sports`;
+
+// ESPN soccer competition codes for each soccer league
+export const ESPN_SOCCER_COMPETITIONS: Record<string, string> = {
+  mls: "usa.1",
+  epl: "eng.1",
+  laliga: "esp.1",
+  bundesliga: "ger.1",
+  seriea: "ita.1",
+  ligue1: "fra.1",
+  ucl: "uefa.champions",
+};
+
 // ESPN API endpoints for different sports
 const ESPN_SCOREBOARD_URLS: Record<string, string> = {
-  nba: "https://site.api.espn.com/apis/site/v2/sports/basketball/nba/scoreboard",
-  mlb: "https://site.api.espn.com/apis/site/v2/sports/baseball/mlb/scoreboard",
-  nfl: "https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard",
-  nhl: "https://site.api.espn.com/apis/site/v2/sports/hockey/nhl/scoreboard",
-  mls: "https://site.api.espn.com/apis/site/v2/sports/soccer/usa.1/scoreboard",
+  nba: `${ESPN_SITE_SPORTS_URL}/basketball/nba/scoreboard`,
+  mlb: `${ESPN_SITE_SPORTS_URL}/baseball/mlb/scoreboard`,
+  nfl: `${ESPN_SITE_SPORTS_URL}/football/nfl/scoreboard`,
+  nhl: `${ESPN_SITE_SPORTS_URL}/hockey/nhl/scoreboard`,
+  wnba: `${ESPN_SITE_SPORTS_URL}/basketball/wnba/scoreboard`,
+  ncaam: `${ESPN_SITE_SPORTS_URL}/basketball/mens-college-basketball/scoreboard`,
+  ncaaw: `${ESPN_SITE_SPORTS_URL}/basketball/womens-college-basketball/scoreboard`,
+  ncaaf: `${ESPN_SITE_SPORTS_URL}/football/college-football/scoreboard`,
+  ...Object.fromEntries(
+    Object.entries(ESPN_SOCCER_COMPETITIONS).map(([league, code]) => [
+      league,
+      `${ESPN_SITE_SPORTS_URL}/soccer/${code}/scoreboard`,
+    ]),
+  ),
+};
+
+// Extra scoreboard params - college scoreboards only return ranked teams unless a group is given
+const ESPN_SCOREBOARD_PARAMS: Record<string, string> = {
+  ncaam: "groups=50",   // All of Division I
+  ncaaw: "groups=50",   // All of Division I
+  ncaaf: "groups=80",   // All of FBS
 };
 
 // ESPN athlete detail endpoints (with team info)
 const ESPN_ATHLETE_DETAIL_URLS: Record<string, string> = {
-  nba: "https://site.web.api.espn.com/apis/common/v3/sports/basketball/nba/athletes",
-  mlb: "https://site.web.api.espn.com/apis/common/v3/sports/baseball/mlb/athletes",
-  nfl: "https://site.web.api.espn.com/apis/common/v3/sports/football/nfl/athletes",
-  nhl: "https://site.web.api.espn.com/apis/common/v3/sports/hockey/nhl/athletes",
+  nba: `${ESPN_WEB_SPORTS_URL}/basketball/nba/athletes`,
+  mlb: `${ESPN_WEB_SPORTS_URL}/baseball/mlb/athletes`,
+  nfl: `${ESPN_WEB_SPORTS_URL}/football/nfl/athletes`,
+  nhl: `${ESPN_WEB_SPORTS_URL}/hockey/nhl/athletes`,
+  wnba: `${ESPN_WEB_SPORTS_URL}/basketball/wnba/athletes`,
+  ncaam: `${ESPN_WEB_SPORTS_URL}/basketball/mens-college-basketball/athletes`,
+  ncaaw: `${ESPN_WEB_SPORTS_URL}/basketball/womens-college-basketball/athletes`,
+  ncaaf: `${ESPN_WEB_SPORTS_URL}/football/college-football/athletes`,
+  ...Object.fromEntries(
+    Object.entries(ESPN_SOCCER_COMPETITIONS).map(([league, code]) => [
+      league,
+      `${ESPN_WEB_SPORTS_URL}/soccer/${code}/athletes`,
+    ]),
+  ),
+};
+
+// ESPN search reports leagues by ESPN slug or competition code rather than our league ID
+const ESPN_SEARCH_LEAGUE_ALIASES: Record<string, string> = {
+  ...Object.fromEntries(
+    Object.entries(ESPN_SOCCER_COMPETITIONS).map(([league, code]) => [code, league]),
+  ),
+  "mens-college-basketball": "ncaam",
+  "womens-college-basketball": "ncaaw",
+  "college-football": "ncaaf",
 };
 
 export interface PlayerTeamInfo {
@@ -107,158 +171,268 @@ export interface PlayerTeamInfo {
   teamName: string;
   teamAbbr: string;
   league: string;
+  // How the team was inferred, and a human-readable explanation
+  teamSource: TeamInferenceSource;
+  teamReason: string;
 }
 
-// Search for a player by name and return their team info
-export async function searchPlayerTeam(playerName: string): Promise<PlayerTeamInfo | null> {
-  if (!playerName || playerName.trim().length < 2) {
+export type TeamInferenceSource = "game-log" | "previous-game" | "current-team";
+
+// Find the team a player was on for a date from their ESPN game log: the team they
+// played for that day, or failing that their most recent game before it
+async function fetchPlayerTeamOnDate(league: string, playerId: string, date: string): Promise<{
+  teamName: string;
+  teamAbbr: string;
+  source: TeamInferenceSource;
+  gameDate: string;
+} | null> {
+  const detailUrl = ESPN_ATHLETE_DETAIL_URLS[league];
+  if (!detailUrl) return null;
+
+  // ESPN labels some seasons by their starting year and others (NBA, NHL) by their ending year
+  const year = Number(date.substring(0, 4));
+  const logEntries: Array<{ gameDate: string; teamName: string; teamAbbr: string }> = [];
+
+  for (const season of [year, year + 1]) {
+    try {
+      const data = await fetchUpstreamJson(`${detailUrl}/${playerId}/gamelog?season=${season}`);
+      for (const event of Object.values<any>(data?.events || {})) {
+        if (!event?.gameDate || !event?.team?.abbreviation) continue;
+        logEntries.push({
+          gameDate: toEasternDate(event.gameDate),
+          teamName: event.team.displayName || event.team.abbreviation,
+          teamAbbr: event.team.abbreviation,
+        });
+      }
+    } catch (error) {
+      // Seasons the player has no game log for are expected misses
+      if (error instanceof UpstreamHttpError && error.status === 404) continue;
+      console.error(`Error fetching game log for player ${playerId}:`, error);
+    }
+  }
+
+  const onDate = logEntries.find(e => e.gameDate === date);
+  if (onDate) {
+    return { ...onDate, source: "game-log" };
+  }
+
+  const before = logEntries
+    .filter(e => e.gameDate < date)
+    .sort((a, b) => b.gameDate.localeCompare(a.gameDate))[0];
+  if (before) {
+    return { ...before, source: "previous-game" };
+  }
+
+  return null;
+}
+
+const PLAYER_EXACT_MATCH_SCORE = 100;
+
+// Rank how well an ESPN player name matches the search (0 = no match)
+function playerMatchScore(search: string, displayName: string, shortName: string): number {
+  if (!displayName) return 0;
+  if (displayName === search) return PLAYER_EXACT_MATCH_SCORE;
+  if (displayName.startsWith(search) || search.startsWith(displayName)) return 80;
+  if (displayName.includes(search) || search.includes(displayName)) return 60;
+  if (shortName.includes(search.split(" ").pop() || "")) return 40;
+  return 0;
+}
+
+async function fetchAthleteDetail(league: string, playerId: string): Promise<any | null> {
+  const detailUrl = ESPN_ATHLETE_DETAIL_URLS[league];
+  if (!detailUrl) return null;
+
+  try {
+    const detailData = await fetchUpstreamJson(`${detailUrl}/${playerId}`);
+    return detailData?.athlete || null;
+  } catch (error) {
+    if (error instanceof UpstreamHttpError && error.status === 404) return null;
+    console.error(`Error fetching athlete ${playerId}:`, error);
     return null;
   }
+}
+
+function toPlayerCandidate(athlete: any, playerId: string, league: string, fallbackName: string, matchScore: number): PlayerCandidate {
+  return {
+    playerId,
+    name: athlete?.displayName || athlete?.fullName || fallbackName,
+    league,
+    teamName: athlete?.team?.displayName || athlete?.team?.name || "",
+    teamAbbr: athlete?.team?.abbreviation || "",
+    position: athlete?.position?.abbreviation || athlete?.position?.displayName || "",
+    ...(athlete?.headshot?.href && { headshotUrl: athlete.headshot.href }),
+    matchScore,
+  };
+}
+
+// Search ESPN for every athlete matching the name across leagues, best match first
+export async function searchPlayerCandidates(playerName: string): Promise<PlayerCandidate[]> {
+  if (!playerName || playerName.trim().length < 2) {
+    return [];
+  }
   
   const normalizedSearch = playerName.trim().toLowerCase();
   
   try {
     // Step 1: Search for player using ESPN common search API
-    const searchUrl = `https://site.api.espn.com/apis/common/v3/search?query=${encodeURIComponent(playerName)}&type=player&limit=5`;
-    
-    const searchResponse = await fetchWithTimeout(searchUrl, {
-      headers: {
-        "Accept": "application/json",
-        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-      },
-    }, 5000);
-    
-    if (!searchResponse.ok) {
-      console.log("ESPN search response not ok:", searchResponse.status);
-      return null;
-    }
+    const searchUrl = `${UPSTREAM_BASE_URLS.espnSite}/apis/common/v3/search?query=${encodeURIComponent(playerName)}&type=player&limit=10`;
     
-    const searchData = await searchResponse.json();
+    const searchData = await fetchUpstreamJson(searchUrl);
     const players = searchData?.items || [];
     
-    // Find best matching player
+    const matches: Array<{ playerId: string; league: string; displayName: string; score: number }> = [];
     for (const player of players) {
-      const displayName = player.displayName?.toLowerCase() || "";
-      const shortName = player.shortName?.toLowerCase() || "";
+      const score = playerMatchScore(
+        normalizedSearch,
+        player.displayName?.toLowerCase() || "",
+        player.shortName?.toLowerCase() || "",
+      );
+      const searchLeague = player.league?.toLowerCase();
+      const league = searchLeague && (ESPN_SEARCH_LEAGUE_ALIASES[searchLeague] || searchLeague);
       
-      // Check for match
-      if (displayName.includes(normalizedSearch) || 
-          normalizedSearch.includes(displayName) ||
-          shortName.includes(normalizedSearch.split(" ").pop() || "")) {
-        
-        const playerId = player.id;
-        const league = player.league?.toLowerCase();
-        const sport = player.sport?.toLowerCase();
-        
-        if (!playerId || !league) continue;
-        
-        // Step 2: Fetch athlete details to get team info
-        const detailUrl = ESPN_ATHLETE_DETAIL_URLS[league];
-        if (!detailUrl) continue;
-        
-        const detailResponse = await fetchWithTimeout(`${detailUrl}/${playerId}`, {
-          headers: {
-            "Accept": "application/json",
-            "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-          },
-        }, 5000);
-        
-        if (!detailResponse.ok) continue;
-        
-        const detailData = await detailResponse.json();
-        const athlete = detailData?.athlete;
-        const team = athlete?.team;
-        
-        if (team) {
-          return {
-            playerName: athlete.displayName || athlete.fullName || player.displayName,
-            teamName: team.displayName || team.name || "",
-            teamAbbr: team.abbreviation || "",
-            league: league.toUpperCase(),
-          };
-        }
-      }
+      if (score === 0 || !player.id || !league || !ESPN_ATHLETE_DETAIL_URLS[league]) continue;
+      matches.push({ playerId: String(player.id), league, displayName: player.displayName, score });
     }
     
-    return null;
+    // Step 2: Fetch athlete details for team and position
+    const athletes = await Promise.all(matches.map(m => fetchAthleteDetail(m.league, m.playerId)));
+    
+    return matches
+      .map((m, i) => toPlayerCandidate(athletes[i], m.playerId, m.league, m.displayName, m.score))
+      .sort((a, b) => b.matchScore - a.matchScore);
   } catch (error) {
     console.error("Error searching for player:", error);
-    return null;
+    return [];
   }
 }
 
-function normalizeTeamName(name: string): string {
-  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+// Pick the candidate to use without asking: a lone result, or the only exact name match
+export function pickPlayerCandidate(candidates: PlayerCandidate[]): PlayerCandidate | null {
+  if (candidates.length === 1) return candidates[0];
+  const exact = candidates.filter(c => c.matchScore === PLAYER_EXACT_MATCH_SCORE);
+  return exact.length === 1 ? exact[0] : null;
 }
 
-// Extract just the team nickname (e.g., "Lakers" from "Los Angeles Lakers")
-function getTeamNickname(displayName: string): string {
-  const parts = displayName.split(" ");
-  // Usually the last word is the nickname, but some teams have multi-word nicknames
-  const twoWordTeams = ["trail blazers", "blue jays", "red sox", "white sox", "maple leafs", "golden knights"];
-  const lastTwo = parts.slice(-2).join(" ").toLowerCase();
-  if (twoWordTeams.includes(lastTwo)) {
-    return normalizeTeamName(lastTwo);
-  }
-  return normalizeTeamName(parts[parts.length - 1] || displayName);
+// Load a specific athlete chosen from the candidate list
+export async function fetchPlayerCandidate(playerId: string, league: string): Promise<PlayerCandidate | null> {
+  const athlete = await fetchAthleteDetail(league, playerId);
+  if (!athlete) return null;
+  return toPlayerCandidate(athlete, playerId, league, "", PLAYER_EXACT_MATCH_SCORE);
 }
 
-function teamMatches(searchTeam: string, teamName: string, teamAbbr: string, displayName: string): boolean {
-  const search = normalizeTeamName(searchTeam);
-  const normalizedTeamName = normalizeTeamName(teamName);
-  const normalizedDisplayName = normalizeTeamName(displayName);
-  const normalizedAbbr = normalizeTeamName(teamAbbr);
-  const nickname = getTeamNickname(displayName);
-  
-  // Exact match on abbreviation (e.g., "LAL" matches Lakers)
-  if (normalizedAbbr === search) return true;
-  
-  // Search term matches nickname exactly (e.g., "lakers" matches "Lakers")
-  if (search === nickname) return true;
+// Resolve a player's team. With asOfDate, the team is the one they were rostered
+// on for that date rather than their current team.
+export async function resolvePlayerTeam(candidate: PlayerCandidate, asOfDate?: string): Promise<PlayerTeamInfo | null> {
+  const { playerId, league, name } = candidate;
   
-  // Full team name contains search term or vice versa
-  if (normalizedDisplayName === search || normalizedTeamName === search) return true;
+  // For a past date, use the game log to find the team at the time
+  if (asOfDate) {
+    const historical = await fetchPlayerTeamOnDate(league, playerId, asOfDate);
+    if (historical) {
+      // Game logs only carry the abbreviation; reuse the full name when it's the current team
+      const teamName = candidate.teamName && historical.teamAbbr === candidate.teamAbbr
+        ? candidate.teamName
+        : historical.teamName;
+      return {
+        playerName: name,
+        teamName,
+        teamAbbr: historical.teamAbbr,
+        league: league.toUpperCase(),
+        teamSource: historical.source,
+        teamReason: historical.source === "game-log"
+          ? `${name} played for ${teamName} on ${historical.gameDate} (ESPN game log)`
+          : `${name}'s last game before ${asOfDate} was for ${teamName} on ${historical.gameDate} (ESPN game log)`,
+      };
+    }
+  }
   
-  // Search term contains the full team name
-  if (search.includes(normalizedDisplayName) || search.includes(normalizedTeamName)) return true;
+  if (!candidate.teamName) return null;
   
+  return {
+    playerName: name,
+    teamName: candidate.teamName,
+    teamAbbr: candidate.teamAbbr,
+    league: league.toUpperCase(),
+    teamSource: "current-team",
+    teamReason: asOfDate
+      ? `No game log entry found for ${asOfDate}, using ${name}'s current team ${candidate.teamName}`
+      : `${name}'s current team is ${candidate.teamName}`,
+  };
+}
+
+function normalizeTeamName(name: string): string {
+  return normalizeTeamText(name).replace(/ /g, "");
+}
+
+// Does the searched name refer to this team? Registry teams match on the names, nickname,
+// aliases and codes they had in the game's season (so "Indians" finds Cleveland in 2019
+// but not 2024); teams the registry doesn't know fall back to ESPN's name and abbreviation.
+export function teamMatches(searchTeam: string, league: string, gameDate: string, teamAbbr: string, displayName: string): boolean {
+  const search = normalizeTeamName(searchTeam);
+  if (!search) return false;
+
+  const season = seasonForDate(league, gameDate);
+  const team = (teamAbbr && findTeam(league, teamAbbr, season)) || findTeam(league, displayName, season);
+  const identity = team ? teamIdentity(team, season) : undefined;
+
+  const nickname = normalizeTeamName(identity?.nickname || displayName.split(" ").pop() || displayName);
+  const fullNames = [displayName, ...(identity ? [identity.name, `${identity.city} ${identity.nickname}`] : [])]
+    .map(normalizeTeamName);
+  const aliases = (identity?.aliases || []).map(normalizeTeamName);
+  const abbrs = [teamAbbr, identity?.espnAbbr, identity?.leagueAbbr]
+    .filter((abbr): abbr is string => Boolean(abbr))
+    .map(normalizeTeamName);
+
+  // Exact match on abbreviation (e.g., "LAL" matches Lakers)
+  if (abbrs.includes(search)) return true;
+
+  // Search term matches nickname or an alias exactly (e.g., "lakers" matches "Lakers")
+  if (search === nickname || aliases.includes(search)) return true;
+
+  // Full team name matches, or the search contains it
+  if (fullNames.some((name) => name === search || search.includes(name))) return true;
+
   // Team name contains the search term (but search must be at least 4 chars to avoid false positives)
-  if (search.length >= 4 && normalizedDisplayName.includes(search)) return true;
-  
+  if (search.length >= 4 && fullNames.some((name) => name.includes(search))) return true;
+
   // Search contains the nickname (e.g., "los angeles lakers" contains "lakers")
   if (nickname.length >= 4 && search.includes(nickname)) return true;
-  
+
   return false;
 }
 
-export async function fetchGamesByDate(league: string, date: string): Promise<GameInfo[]> {
+// Convert an ESPN event start time to its calendar date in US Eastern time (YYYY-MM-DD)
+export function toEasternDate(isoDate: string): string {
+  return new Date(isoDate).toLocaleDateString("en-CA", { timeZone: "America/New_York" });
+}
+
+function toEspnDate(date: string): string {
+  // ESPN date format: YYYYMMDD
+  // Parse the date string directly to avoid timezone issues
+  // Input format is "YYYY-MM-DD"
+  const [year, month, day] = date.split("-");
+  return `${year}${month}${day}`;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().substring(0, 10);
+}
+
+// Fetch and parse an ESPN scoreboard for a single date ("YYYYMMDD") or range ("YYYYMMDD-YYYYMMDD").
+// With a fixed date every game is stamped with it, otherwise with its Eastern-time start date.
+async function fetchScoreboardGames(league: string, espnDates: string, cacheTtl: number, fixedDate?: string): Promise<GameInfo[]> {
   const baseUrl = ESPN_SCOREBOARD_URLS[league];
   if (!baseUrl) {
     return [];
   }
 
   try {
-    // ESPN date format: YYYYMMDD
-    // Parse the date string directly to avoid timezone issues
-    // Input format is "YYYY-MM-DD"
-    const [year, month, day] = date.split("-");
-    const espnDate = `${year}${month}${day}`;
+    const extraParams = ESPN_SCOREBOARD_PARAMS[league];
+    const url = `${baseUrl}?dates=${espnDates}&limit=1000${extraParams ? `&${extraParams}` : ""}`;
     
-    const url = `${baseUrl}?dates=${espnDate}`;
-    
-    const response = await fetch(url, {
-      headers: {
-        "Accept": "application/json",
-        "User-Agent": "BoxScoreFinder/1.0"
-      }
-    });
-
-    if (!response.ok) {
-      console.error(`ESPN API error for ${league}: ${response.status}`);
-      return [];
-    }
-
-    const data: ESPNScoreboardResponse = await response.json();
+    const data = await fetchUpstreamJson<ESPNScoreboardResponse>(url, { cacheTtl });
     
     if (!data.events || data.events.length === 0) {
       return [];
@@ -282,14 +456,37 @@ export async function fetchGamesByDate(league: string, date: string): Promise<Ga
               awayTeam: awayTeam.team.displayName,
               homeTeamAbbr: homeTeam.team.abbreviation,
               awayTeamAbbr: awayTeam.team.abbreviation,
-              gameDate: date,
+              gameDate: fixedDate || toEasternDate(event.date),
               league: league.toUpperCase(),
+              ...(event.season && {
+                season: {
+                  year: event.season.year,
+                  type: event.season.type,
+                  week: event.week?.number,
+                },
+              }),
             });
           }
         }
       }
     }
 
+    // Number repeat meetings on the same date (doubleheaders) in start-time order
+    const startTimes = new Map(data.events.map(e => [e.id, e.date]));
+    const meetings = new Map<string, GameInfo[]>();
+    for (const game of games) {
+      const key = `${game.gameDate}:${game.awayTeamAbbr}@${game.homeTeamAbbr}`;
+      meetings.set(key, [...(meetings.get(key) || []), game]);
+    }
+    for (const pair of Array.from(meetings.values())) {
+      if (pair.length < 2) continue;
+      pair
+        .sort((a, b) => (startTimes.get(a.espnGameId) || "").localeCompare(startTimes.get(b.espnGameId) || ""))
+        .forEach((game, index) => {
+          game.gameNumber = index + 1;
+        });
+    }
+
     return games;
   } catch (error) {
     console.error(`Error fetching ${league} games:`, error);
@@ -297,54 +494,319 @@ export async function fetchGamesByDate(league: string, date: string): Promise<Ga
   }
 }
 
-export async function findGame(teamName: string, date: string, leagues: string[]): Promise<GameInfo | null> {
-  for (const league of leagues) {
-    const games = await fetchGamesByDate(league, date);
-    
-    for (const game of games) {
-      if (
-        teamMatches(teamName, game.homeTeam, game.homeTeamAbbr, game.homeTeam) ||
-        teamMatches(teamName, game.awayTeam, game.awayTeamAbbr, game.awayTeam)
-      ) {
-        return game;
+export async function fetchGamesByDate(league: string, date: string): Promise<GameInfo[]> {
+  return fetchScoreboardGames(league, toEspnDate(date), cacheTtlForDate(date), date);
+}
+
+// Days per ESPN range request - college slates are large enough to hit the result limit
+const ESPN_RANGE_CHUNK_DAYS: Record<string, number> = {
+  ncaam: 7,
+  ncaaw: 7,
+  ncaaf: 14,
+};
+
+// Range requests in flight at once per league - a college season is about 20 chunks
+const RANGE_CHUNK_CONCURRENCY = 6;
+
+// Fetch every game between two dates (inclusive) using ESPN's dates=YYYYMMDD-YYYYMMDD form.
+// Chunks are fetched a few at a time; any not back by the deadline are skipped, and the
+// games from chunks that did arrive are kept.
+export async function fetchGamesByDateRange(
+  league: string,
+  startDate: string,
+  endDate: string,
+  deadline = Date.now() + LOOKUP_DEADLINE_MS,
+): Promise<GameInfo[]> {
+  const chunkDays = ESPN_RANGE_CHUNK_DAYS[league] || 31;
+  const chunks: Array<[string, string]> = [];
+  for (let chunkStart = startDate; chunkStart <= endDate; chunkStart = addDays(chunkStart, chunkDays)) {
+    const chunkEnd = addDays(chunkStart, chunkDays - 1) < endDate ? addDays(chunkStart, chunkDays - 1) : endDate;
+    chunks.push([chunkStart, chunkEnd]);
+  }
+
+  const gamesByChunk: GameInfo[][] = chunks.map(() => []);
+  let nextChunk = 0;
+  const fetchChunks = async () => {
+    while (nextChunk < chunks.length && Date.now() < deadline) {
+      const index = nextChunk++;
+      const [chunkStart, chunkEnd] = chunks[index];
+      gamesByChunk[index] = await withDeadline(
+        fetchScoreboardGames(league, `${toEspnDate(chunkStart)}-${toEspnDate(chunkEnd)}`, cacheTtlForDate(chunkEnd)),
+        deadline,
+        [],
+        `${league} scoreboard ${chunkStart} to ${chunkEnd}`,
+      );
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(RANGE_CHUNK_CONCURRENCY, chunks.length) }, fetchChunks));
+
+  return gamesByChunk.flat();
+}
+
+function normalizePlayerName(name: string): string {
+  return name.toLowerCase().normalize("NFD").replace(/[^a-z]/g, "");
+}
+
+// Fetch ESPN's game summary (box score, line scores, rosters) for a game
+export async function fetchGameSummary(league: string, espnGameId: string): Promise<any | null> {
+  const scoreboardUrl = ESPN_SCOREBOARD_URLS[league.toLowerCase()];
+  if (!scoreboardUrl) return null;
+
+  const summaryUrl = scoreboardUrl.replace(/\/scoreboard$/, "/summary");
+
+  try {
+    return await fetchUpstreamJson(`${summaryUrl}?event=${encodeURIComponent(espnGameId)}`);
+  } catch (error) {
+    console.error(`Error fetching ${league} game summary:`, error);
+    return null;
+  }
+}
+
+// Check the ESPN game summary for whether a player appeared in the game. Matches on
+// the ESPN athlete ID when we have one, otherwise on the normalized name.
+export async function fetchPlayerAppearance(
+  league: string,
+  espnGameId: string,
+  playerName: string,
+  playerId?: string,
+): Promise<PlayerAppearance | null> {
+  const wanted = normalizePlayerName(playerName);
+  const isPlayer = (athlete: any) =>
+    (playerId && String(athlete?.id) === playerId) ||
+    (!!athlete?.displayName && normalizePlayerName(athlete.displayName) === wanted);
+
+  const data = await fetchGameSummary(league, espnGameId);
+  if (!data) return null;
+
+  // Most sports: boxscore.players has one entry per team, each with stat groups
+  // (e.g. batting and pitching) listing every rostered athlete
+  for (const teamBox of data?.boxscore?.players || []) {
+    const teamName = teamBox.team?.displayName;
+    let found: any = null;
+    const statLine: Array<{ label: string; value: string }> = [];
+
+    for (const group of teamBox.statistics || []) {
+      const entry = (group.athletes || []).find((a: any) => isPlayer(a.athlete));
+      if (!entry) continue;
+      found = found || entry;
+
+      const labels: string[] = group.labels || group.names || [];
+      (entry.stats || []).forEach((value: string, i: number) => {
+        if (labels[i]) statLine.push({ label: labels[i], value: String(value) });
+      });
+    }
+
+    if (found) {
+      const played = !found.didNotPlay && found.active !== false && statLine.length > 0;
+      return {
+        playerName: found.athlete?.displayName || playerName,
+        status: played ? "played" : "inactive",
+        teamName,
+        ...(found.reason && { reason: found.reason }),
+        ...(played && { statLine }),
+      };
+    }
+  }
+
+  // Soccer: rosters lists the matchday squad, with starters and substitutes used
+  for (const teamRoster of data?.rosters || []) {
+    const entry = (teamRoster.roster || []).find((a: any) => isPlayer(a.athlete));
+    if (!entry) continue;
+
+    const played = !!(entry.starter || entry.subbedIn);
+    return {
+      playerName: entry.athlete?.displayName || playerName,
+      status: played ? "played" : "inactive",
+      teamName: teamRoster.team?.displayName,
+      ...(!played && { reason: "Unused substitute" }),
+      ...(played && {
+        statLine: (entry.stats || []).map((stat: any) => ({
+          label: stat.abbreviation || stat.name,
+          value: String(stat.displayValue ?? stat.value),
+        })),
+      }),
+    };
+  }
+
+  // Football box scores leave out players without a stat - a lineman or a backup who
+  // played is missing just like one who didn't dress - so absence proves nothing there
+  if (LEAGUES.find((l) => l.id === league.toLowerCase())?.sport === "football") {
+    return { playerName, status: "unknown" };
+  }
+
+  return { playerName, status: "not-on-roster" };
+}
+
+// Current season window for a league, from the ESPN scoreboard's league metadata
+export async function fetchSeasonRange(league: string): Promise<{ startDate: string; endDate: string } | null> {
+  const baseUrl = ESPN_SCOREBOARD_URLS[league];
+  if (!baseUrl) {
+    return null;
+  }
+
+  try {
+    const data = await fetchUpstreamJson(baseUrl, { cacheTtl: SCHEDULE_CACHE_TTL });
+    const season = data?.leagues?.[0]?.season;
+    if (!season?.startDate || !season?.endDate) return null;
+
+    return {
+      startDate: toEasternDate(season.startDate),
+      endDate: toEasternDate(season.endDate),
+    };
+  } catch (error) {
+    console.error(`Error fetching ${league} season range:`, error);
+    return null;
+  }
+}
+
+function gameInvolves(game: GameInfo, teamName: string): boolean {
+  return teamMatches(teamName, game.league, game.gameDate, game.homeTeamAbbr, game.homeTeam) ||
+    teamMatches(teamName, game.league, game.gameDate, game.awayTeamAbbr, game.awayTeam);
+}
+
+function isHeadToHead(game: GameInfo, teamName: string, opponentName: string): boolean {
+  return (
+    (teamMatches(teamName, game.league, game.gameDate, game.homeTeamAbbr, game.homeTeam) &&
+      teamMatches(opponentName, game.league, game.gameDate, game.awayTeamAbbr, game.awayTeam)) ||
+    (teamMatches(teamName, game.league, game.gameDate, game.awayTeamAbbr, game.awayTeam) &&
+      teamMatches(opponentName, game.league, game.gameDate, game.homeTeamAbbr, game.homeTeam))
+  );
+}
+
+// Find every game on the date involving the team, across all candidate leagues
+// (e.g. "Rangers" matches both MLB and NHL, and doubleheaders return both games).
+// With an opponent, only games between the two teams are returned.
+// Leagues are queried concurrently under one deadline; results keep the leagues' order.
+export async function findGames(teamName: string, date: string, leagues: string[], opponentName?: string): Promise<GameInfo[]> {
+  const deadline = Date.now() + LOOKUP_DEADLINE_MS;
+  const gamesByLeague = await Promise.all(
+    leagues.map(league => withDeadline(fetchGamesByDate(league, date), deadline, [], `${league} scoreboard`)),
+  );
+
+  return gamesByLeague.flat().filter(game =>
+    opponentName ? isHeadToHead(game, teamName, opponentName) : gameInvolves(game, teamName),
+  );
+}
+
+function byGameDate(a: GameInfo, b: GameInfo): number {
+  return a.gameDate.localeCompare(b.gameDate) || (a.gameNumber || 0) - (b.gameNumber || 0);
+}
+
+// Find every game for the team between two dates (inclusive), in date order.
+// With an opponent, only games between the two teams are returned.
+export async function findGamesInRange(teamName: string, startDate: string, endDate: string, leagues: string[], opponentName?: string): Promise<GameInfo[]> {
+  const deadline = Date.now() + LOOKUP_DEADLINE_MS;
+  const gamesByLeague = await Promise.all(
+    leagues.map(league => fetchGamesByDateRange(league, startDate, endDate, deadline)),
+  );
+
+  return gamesByLeague
+    .flat()
+    .filter(game => opponentName ? isHeadToHead(game, teamName, opponentName) : gameInvolves(game, teamName))
+    .sort(byGameDate);
+}
+
+// Dates two teams meet between startDate and endDate, read from the league's own season
+// schedule in one cached call (NBA CDN, MLB StatsAPI). Null when the league has no such
+// schedule or it couldn't be read, and ESPN's scoreboards have to be scanned instead.
+async function fetchMeetingDates(league: string, teamName: string, opponentName: string, startDate: string, endDate: string): Promise<string[] | null> {
+  const dates = new Set<string>();
+  const addIfMeeting = (date: string, home: (name: string) => boolean, away: (name: string) => boolean) => {
+    if (date >= startDate && date <= endDate &&
+      ((home(teamName) && away(opponentName)) || (away(teamName) && home(opponentName)))) {
+      dates.add(date);
+    }
+  };
+
+  try {
+    if (league === "nba") {
+      const scheduleUrl = `${UPSTREAM_BASE_URLS.nbaCdn}/static/json/staticData/scheduleLeagueV2_1.json`;
+      const data = await fetchUpstreamJson(scheduleUrl, { cacheTtl: SCHEDULE_CACHE_TTL });
+
+      // The schedule only has tricodes, so match through the registry's names for them
+      const isTeam = (tricode: string | undefined, date: string) => (name: string) => {
+        const season = seasonForDate("nba", date);
+        const team = tricode ? findTeam("nba", tricode, season) : undefined;
+        if (!team) return false;
+        const identity = teamIdentity(team, season);
+        return teamMatches(name, "nba", date, identity.espnAbbr, identity.name);
+      };
+
+      for (const gameDate of data?.leagueSchedule?.gameDates || []) {
+        for (const game of gameDate.games || []) {
+          // Same date convention as fetchNbaGameId (format: "2026-01-06T00:00:00Z")
+          const date = game.gameDateUTC?.substring(0, 10);
+          if (!date) continue;
+          addIfMeeting(date, isTeam(game.homeTeam?.teamTricode, date), isTeam(game.awayTeam?.teamTricode, date));
+        }
       }
+      return Array.from(dates).sort();
     }
+
+    if (league === "mlb") {
+      const url = `${UPSTREAM_BASE_URLS.mlbStatsApi}/api/v1/schedule?sportId=1&startDate=${startDate}&endDate=${endDate}`;
+      const data = await fetchUpstreamJson(url, { cacheTtl: cacheTtlForDate(endDate) });
+
+      for (const day of data?.dates || []) {
+        for (const game of day.games || []) {
+          const isTeam = (fullName: string) => (name: string) => teamMatches(name, "mlb", day.date, "", fullName);
+          addIfMeeting(day.date, isTeam(game.teams?.home?.team?.name || ""), isTeam(game.teams?.away?.team?.name || ""));
+        }
+      }
+      return Array.from(dates).sort();
+    }
+
+    return null;
+  } catch (error) {
+    console.error(`Error fetching ${league} season schedule:`, error);
+    return null;
   }
-  
-  return null;
 }
 
-// Helper to check if two team abbreviations match (accounting for ESPN/NBA differences)
-function abbrMatches(espnAbbr: string, nbaAbbr: string): boolean {
-  const espnUpper = espnAbbr.toUpperCase();
-  const nbaUpper = nbaAbbr.toUpperCase();
-  
-  // Direct match
-  if (espnUpper === nbaUpper) return true;
-  
-  // Check if ESPN abbr maps to this NBA abbr
-  const mapped = ESPN_TO_NBA_ABBR[espnUpper];
-  if (mapped && mapped === nbaUpper) return true;
-  
-  // Also check reverse mapping (in case NBA uses the ESPN-style abbr)
-  return getNbaAbbr(espnAbbr) === nbaAbbr.toLowerCase();
+// Find every meeting between two teams in each league's current season, in date order.
+// Leagues with a season schedule only fetch the ESPN scoreboards for the meeting dates.
+export async function findHeadToHeadGames(teamName: string, opponentName: string, leagues: string[]): Promise<GameInfo[]> {
+  const gamesByLeague = await Promise.all(
+    leagues.map(async league => {
+      const season = await fetchSeasonRange(league);
+      if (!season) return [];
+
+      const meetingDates = await fetchMeetingDates(league, teamName, opponentName, season.startDate, season.endDate);
+      if (!meetingDates) {
+        return findGamesInRange(teamName, season.startDate, season.endDate, [league], opponentName);
+      }
+
+      const deadline = Date.now() + LOOKUP_DEADLINE_MS;
+      const gamesByDate = await Promise.all(
+        meetingDates.map(date => withDeadline(fetchGamesByDate(league, date), deadline, [], `${league} scoreboard ${date}`)),
+      );
+      return gamesByDate.flat().filter(game => isHeadToHead(game, teamName, opponentName));
+    }),
+  );
+
+  return gamesByLeague.flat().sort(byGameDate);
+}
+
+// Helper to check if an ESPN abbreviation and an NBA tricode are the same team that season
+export function abbrMatches(espnAbbr: string, nbaAbbr: string, date: string): boolean {
+  if (!espnAbbr || !nbaAbbr) return false;
+  if (espnAbbr.toUpperCase() === nbaAbbr.toUpperCase()) return true;
+  return officialAbbr("nba", espnAbbr, date) === nbaAbbr.toUpperCase();
 }
 
 // Fetch NBA game ID from NBA's CDN scoreboard API
 export async function fetchNbaGameId(date: string, homeTeamAbbr: string, awayTeamAbbr: string): Promise<{ gameId: string; awayAbbr: string; homeAbbr: string } | null> {
   try {
     // Try the fast CDN endpoint first (works for today's games and recent games)
-    const cdnUrl = `https://cdn.nba.com/static/json/liveData/scoreboard/todaysScoreboard_00.json`;
+    const cdnUrl = `${UPSTREAM_BASE_URLS.nbaCdn}/static/json/liveData/scoreboard/todaysScoreboard_00.json`;
     
-    const cdnResponse = await fetchWithTimeout(cdnUrl, {
-      headers: {
-        "Accept": "application/json",
-        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-      },
-    }, 5000);
+    // A CDN failure still falls through to the schedule lookup below
+    const data = await fetchUpstreamJson(cdnUrl, { cacheTtl: LIVE_CACHE_TTL }).catch((error) => {
+      console.error("Error fetching NBA live scoreboard:", error);
+      return null;
+    });
     
-    if (cdnResponse.ok) {
-      const data = await cdnResponse.json();
+    if (data) {
       const scoreboardDate = data?.scoreboard?.gameDate; // Format: "2026-01-06"
       const games = data?.scoreboard?.games || [];
       
@@ -354,8 +816,8 @@ export async function fetchNbaGameId(date: string, homeTeamAbbr: string, awayTea
           const gameHomeAbbr = game.homeTeam?.teamTricode?.toUpperCase();
           const gameAwayAbbr = game.awayTeam?.teamTricode?.toUpperCase();
           
-          const homeMatch = abbrMatches(homeTeamAbbr, gameHomeAbbr) || abbrMatches(homeTeamAbbr, gameAwayAbbr);
-          const awayMatch = abbrMatches(awayTeamAbbr, gameAwayAbbr) || abbrMatches(awayTeamAbbr, gameHomeAbbr);
+          const homeMatch = abbrMatches(homeTeamAbbr, gameHomeAbbr, date) || abbrMatches(homeTeamAbbr, gameAwayAbbr, date);
+          const awayMatch = abbrMatches(awayTeamAbbr, gameAwayAbbr, date) || abbrMatches(awayTeamAbbr, gameHomeAbbr, date);
           
           if (homeMatch && awayMatch) {
             return {
@@ -370,38 +832,30 @@ export async function fetchNbaGameId(date: string, homeTeamAbbr: string, awayTea
     
     // Fallback: Try the schedule API for historical/future dates
     const [year, month, day] = date.split("-");
-    const scheduleUrl = `https://cdn.nba.com/static/json/staticData/scheduleLeagueV2_1.json`;
+    const scheduleUrl = `${UPSTREAM_BASE_URLS.nbaCdn}/static/json/staticData/scheduleLeagueV2_1.json`;
     
-    const scheduleResponse = await fetchWithTimeout(scheduleUrl, {
-      headers: {
-        "Accept": "application/json",
-        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-      },
-    }, 8000);
+    const scheduleData = await fetchUpstreamJson(scheduleUrl, { cacheTtl: SCHEDULE_CACHE_TTL });
     
-    if (scheduleResponse.ok) {
-      const scheduleData = await scheduleResponse.json();
-      const gameDates = scheduleData?.leagueSchedule?.gameDates || [];
-      
-      for (const gameDate of gameDates) {
-        for (const game of gameDate.games || []) {
-          // Check if game date matches (format: "2026-01-06T00:00:00Z")
-          const gameDateStr = game.gameDateUTC?.substring(0, 10);
-          if (gameDateStr !== date) continue;
-          
-          const gameHomeAbbr = game.homeTeam?.teamTricode?.toUpperCase();
-          const gameAwayAbbr = game.awayTeam?.teamTricode?.toUpperCase();
-          
-          const homeMatch = abbrMatches(homeTeamAbbr, gameHomeAbbr) || abbrMatches(homeTeamAbbr, gameAwayAbbr);
-          const awayMatch = abbrMatches(awayTeamAbbr, gameAwayAbbr) || abbrMatches(awayTeamAbbr, gameHomeAbbr);
-          
-          if (homeMatch && awayMatch) {
-            return {
-              gameId: game.gameId,
-              awayAbbr: gameAwayAbbr.toLowerCase(),
-              homeAbbr: gameHomeAbbr.toLowerCase()
-            };
-          }
+    const gameDates = scheduleData?.leagueSchedule?.gameDates || [];
+    
+    for (const gameDate of gameDates) {
+      for (const game of gameDate.games || []) {
+        // Check if game date matches (format: "2026-01-06T00:00:00Z")
+        const gameDateStr = game.gameDateUTC?.substring(0, 10);
+        if (gameDateStr !== date) continue;
+        
+        const gameHomeAbbr = game.homeTeam?.teamTricode?.toUpperCase();
+        const gameAwayAbbr = game.awayTeam?.teamTricode?.toUpperCase();
+        
+        const homeMatch = abbrMatches(homeTeamAbbr, gameHomeAbbr, date) || abbrMatches(homeTeamAbbr, gameAwayAbbr, date);
+        const awayMatch = abbrMatches(awayTeamAbbr, gameAwayAbbr, date) || abbrMatches(awayTeamAbbr, gameHomeAbbr, date);
+        
+        if (homeMatch && awayMatch) {
+          return {
+            gameId: game.gameId,
+            awayAbbr: gameAwayAbbr.toLowerCase(),
+            homeAbbr: gameHomeAbbr.toLowerCase()
+          };
         }
       }
     }
@@ -413,6 +867,138 @@ export async function fetchNbaGameId(date: string, homeTeamAbbr: string, awayTea
   }
 }
 
+// NFL.com season segment for each ESPN season type
+const NFL_SEASON_TYPES: Record<number, string> = {
+  1: "pre",
+  2: "reg",
+  3: "post",
+};
+
+// Build the NFL.com game-center slug from an ESPN game (e.g., "chiefs-at-ravens-2024-reg-1").
+// NFL.com has no public game ID lookup, so the slug is derived from the ESPN season and week.
+export function getNflGameSlug(game: GameInfo): {
+  slug: string;
+  awaySlug: string;
+  homeSlug: string;
+} | null {
+  if (!game.season || game.season.week === undefined) return null;
+
+  const seasonType = NFL_SEASON_TYPES[game.season.type];
+  if (!seasonType) return null;
+
+  let week = game.season.week;
+  // ESPN counts the Hall of Fame game as preseason week 1, NFL.com as week 0
+  if (seasonType === "pre") week -= 1;
+  // ESPN's postseason week 4 is the Pro Bowl, so the Super Bowl is week 5 there and week 4 on NFL.com
+  if (seasonType === "post" && week >= 5) week = 4;
+
+  const awaySlug = slugifyTeamName(teamNickname("nfl", game.awayTeam, game.gameDate));
+  const homeSlug = slugifyTeamName(teamNickname("nfl", game.homeTeam, game.gameDate));
+
+  return {
+    slug: `${awaySlug}-at-${homeSlug}-${game.season.year}-${seasonType}-${week}`,
+    awaySlug,
+    homeSlug,
+  };
+}
+
+// Fetch WNBA game ID from the WNBA's CDN schedule (same feed format as the NBA's)
+export async function fetchWnbaGameId(date: string, homeTeamAbbr: string, awayTeamAbbr: string): Promise<{ gameId: string; awayAbbr: string; homeAbbr: string } | null> {
+  try {
+    const scheduleUrl = `${UPSTREAM_BASE_URLS.wnbaCdn}/static/json/staticData/scheduleLeagueV2_1.json`;
+
+    const scheduleData = await fetchUpstreamJson(scheduleUrl, { cacheTtl: SCHEDULE_CACHE_TTL });
+
+    const home = officialAbbr("wnba", homeTeamAbbr, date);
+    const away = officialAbbr("wnba", awayTeamAbbr, date);
+
+    const gameDates = scheduleData?.leagueSchedule?.gameDates || [];
+
+    for (const gameDate of gameDates) {
+      for (const game of gameDate.games || []) {
+        const gameDateStr = game.gameDateUTC?.substring(0, 10);
+        if (gameDateStr !== date) continue;
+
+        const gameHomeAbbr = game.homeTeam?.teamTricode?.toUpperCase();
+        const gameAwayAbbr = game.awayTeam?.teamTricode?.toUpperCase();
+        if (!gameHomeAbbr || !gameAwayAbbr) continue;
+
+        const homeMatch = home === gameHomeAbbr || home === gameAwayAbbr;
+        const awayMatch = away === gameAwayAbbr || away === gameHomeAbbr;
+
+        if (homeMatch && awayMatch) {
+          return {
+            gameId: game.gameId,
+            awayAbbr: gameAwayAbbr.toLowerCase(),
+            homeAbbr: gameHomeAbbr.toLowerCase(),
+          };
+        }
+      }
+    }
+
+    return null;
+  } catch (error) {
+    console.error("Error fetching WNBA game ID:", error);
+    return null;
+  }
+}
+
+// Fetch NHL game ID from the NHL web API schedule feed
+export async function fetchNhlGameId(date: string, homeTeamAbbr: string, awayTeamAbbr: string): Promise<{ gameId: string; awayAbbr: string; homeAbbr: string } | null> {
+  try {
+    // The schedule endpoint returns the whole week starting at the requested date
+    const scheduleUrl = `${UPSTREAM_BASE_URLS.nhlApi}/v1/schedule/${date}`;
+
+    const data = await fetchUpstreamJson(scheduleUrl, { cacheTtl: cacheTtlForDate(date) });
+    const gameWeek = data?.gameWeek || [];
+    const gameDay = gameWeek.find((day: any) => day.date === date);
+    if (!gameDay) return null;
+
+    const home = officialAbbr("nhl", homeTeamAbbr, date);
+    const away = officialAbbr("nhl", awayTeamAbbr, date);
+
+    for (const game of gameDay.games || []) {
+      const gameHomeAbbr = game.homeTeam?.abbrev?.toUpperCase();
+      const gameAwayAbbr = game.awayTeam?.abbrev?.toUpperCase();
+      if (!gameHomeAbbr || !gameAwayAbbr) continue;
+
+      const homeMatch = home === gameHomeAbbr || home === gameAwayAbbr;
+      const awayMatch = away === gameAwayAbbr || away === gameHomeAbbr;
+
+      if (homeMatch && awayMatch) {
+        return {
+          gameId: String(game.id),
+          awayAbbr: gameAwayAbbr.toLowerCase(),
+          homeAbbr: gameHomeAbbr.toLowerCase(),
+        };
+      }
+    }
+
+    return null;
+  } catch (error) {
+    console.error("Error fetching NHL game ID:", error);
+    return null;
+  }
+}
+
+// Build the MLS match-center slug from an ESPN game (e.g., "mlssoccer.com/.../matches/miavsrsl-02-21-2024").
+// Like NFL.com, MLS has no public ID lookup, so the slug is derived from the clubs and date.
+export function getMlsMatchSlug(game: GameInfo): {
+  slug: string;
+  season: string;
+} | null {
+  if (!game.homeTeamAbbr || !game.awayTeamAbbr) return null;
+
+  const [year, month, day] = game.gameDate.split("-");
+  const home = officialAbbr("mls", game.homeTeamAbbr, game.gameDate).toLowerCase();
+  const away = officialAbbr("mls", game.awayTeamAbbr, game.gameDate).toLowerCase();
+
+  return {
+    slug: `${home}vs${away}-${month}-${day}-${year}`,
+    season: String(game.season?.year ?? year),
+  };
+}
+
 // Slugify team name for MLB URLs (e.g., "Blue Jays" -> "blue-jays")
 export function slugifyTeamName(teamName: string): string {
   return teamName
@@ -423,22 +1009,24 @@ export function slugifyTeamName(teamName: string): string {
     .trim();
 }
 
-// Extract team nickname from full name (e.g., "Toronto Blue Jays" -> "Blue Jays")
-function extractMlbNickname(fullName: string): string {
-  // Common city prefixes to remove
-  const cityPatterns = [
-    /^(Los Angeles|New York|San Francisco|San Diego|St\. Louis|Kansas City|Tampa Bay|Texas|Arizona|Colorado|Minnesota|Oakland|Seattle|Baltimore|Boston|Chicago|Cincinnati|Cleveland|Detroit|Houston|Miami|Milwaukee|Philadelphia|Pittsburgh|Toronto|Washington|Atlanta)\s+/i
-  ];
-  
-  let nickname = fullName;
-  for (const pattern of cityPatterns) {
-    nickname = nickname.replace(pattern, "");
-  }
-  return nickname.trim();
+// A team's nickname as of the game date (e.g., "Toronto Blue Jays" -> "Blue Jays"), or the
+// last word of the name for teams the registry doesn't know
+function teamNickname(league: string, fullName: string, date: string): string {
+  const season = seasonForDate(league, date);
+  const team = findTeam(league, fullName, season);
+  return team ? teamIdentity(team, season).nickname : fullName.split(" ").pop() || fullName;
+}
+
+// MLB.com gameday slug for a StatsAPI team name (e.g., "Toronto Blue Jays" -> "blue-jays")
+function mlbTeamSlug(fullName: string, date: string): string {
+  const season = seasonForDate("mlb", date);
+  const team = findTeam("mlb", fullName, season);
+  return team ? teamIdentity(team, season).mlbSlug : slugifyTeamName(teamNickname("mlb", fullName, date));
 }
 
-// Fetch MLB game ID (gamePk) from MLB StatsAPI
-export async function fetchMlbGameId(date: string, homeTeamName: string, awayTeamName: string): Promise<{ 
+// Fetch MLB game ID (gamePk) from MLB StatsAPI. For a doubleheader, gameNumber picks
+// which of the two meetings that day (1 or 2).
+export async function fetchMlbGameId(date: string, homeTeamName: string, awayTeamName: string, gameNumber?: number): Promise<{ 
   gamePk: string; 
   homeSlug: string; 
   awaySlug: string;
@@ -450,131 +1038,43 @@ export async function fetchMlbGameId(date: string, homeTeamName: string, awayTea
     const mlbDate = `${year}-${month}-${day}`;
     
     // MLB StatsAPI schedule endpoint
-    const url = `https://statsapi.mlb.com/api/v1/schedule?date=${mlbDate}&sportId=1`;
-    
-    const response = await fetch(url, {
-      headers: {
-        "Accept": "application/json",
-        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-      },
-    });
-    
-    if (!response.ok) {
-      console.log("MLB StatsAPI response not ok:", response.status);
-      return null;
-    }
+    const url = `${UPSTREAM_BASE_URLS.mlbStatsApi}/api/v1/schedule?date=${mlbDate}&sportId=1`;
     
-    const data = await response.json();
+    const data = await fetchUpstreamJson(url, { cacheTtl: cacheTtlForDate(date) });
     const dates = data?.dates || [];
     
     if (dates.length === 0) return null;
     
-    const games = dates[0]?.games || [];
+    const games: any[] = dates[0]?.games || [];
     
-    for (const game of games) {
-      // The API uses team.name for full name (e.g., "Toronto Blue Jays")
-      const gameHomeFull = game.teams?.home?.team?.name || "";
-      const gameAwayFull = game.teams?.away?.team?.name || "";
-      
-      // Extract nicknames for slugs
-      const gameHomeNickname = extractMlbNickname(gameHomeFull);
-      const gameAwayNickname = extractMlbNickname(gameAwayFull);
-      
-      // Check if this game matches the teams we're looking for
-      const homeMatch = teamMatches(homeTeamName, gameHomeNickname, "", gameHomeFull) ||
-                       teamMatches(homeTeamName, gameAwayNickname, "", gameAwayFull);
-      const awayMatch = teamMatches(awayTeamName, gameHomeNickname, "", gameHomeFull) ||
-                       teamMatches(awayTeamName, gameAwayNickname, "", gameAwayFull);
-      
-      // Also check if at least one team matches when only one team is provided
-      const singleTeamMatch = teamMatches(homeTeamName, gameHomeNickname, "", gameHomeFull) ||
-                              teamMatches(homeTeamName, gameAwayNickname, "", gameAwayFull) ||
-                              teamMatches(awayTeamName, gameHomeNickname, "", gameHomeFull) ||
-                              teamMatches(awayTeamName, gameAwayNickname, "", gameAwayFull);
-      
-      if ((homeMatch && awayMatch) || singleTeamMatch) {
-        return {
-          gamePk: String(game.gamePk),
-          homeSlug: slugifyTeamName(gameHomeNickname),
-          awaySlug: slugifyTeamName(gameAwayNickname),
-          homeTeam: gameHomeFull,
-          awayTeam: gameAwayFull,
-        };
-      }
-    }
-    
-    return null;
+    // Both teams must be in the game - the API uses team.name for the full name (e.g., "Toronto Blue Jays")
+    const matches = (searchTeam: string, fullName: string) => teamMatches(searchTeam, "mlb", date, "", fullName);
+    const meetings = games
+      .filter((game) => {
+        const gameHomeFull = game.teams?.home?.team?.name || "";
+        const gameAwayFull = game.teams?.away?.team?.name || "";
+        return (matches(homeTeamName, gameHomeFull) || matches(homeTeamName, gameAwayFull)) &&
+          (matches(awayTeamName, gameHomeFull) || matches(awayTeamName, gameAwayFull));
+      })
+      .sort((a, b) => String(a.gameDate || "").localeCompare(String(b.gameDate || "")));
+
+    // StatsAPI numbers doubleheader games itself; otherwise take the nth meeting by start time
+    const game = gameNumber
+      ? meetings.find((g) => g.gameNumber === gameNumber) || meetings[gameNumber - 1]
+      : meetings[0];
+    if (!game) return null;
+
+    const gameHomeFull = game.teams?.home?.team?.name || "";
+    const gameAwayFull = game.teams?.away?.team?.name || "";
+    return {
+      gamePk: String(game.gamePk),
+      homeSlug: mlbTeamSlug(gameHomeFull, date),
+      awaySlug: mlbTeamSlug(gameAwayFull, date),
+      homeTeam: gameHomeFull,
+      awayTeam: gameAwayFull,
+    };
   } catch (error) {
     console.error("Error fetching MLB game ID:", error);
     return null;
   }
 }
-
-// Generate direct box score URLs using game IDs
-// Note: ESPN game IDs only work for ESPN URLs. Official league sites use different internal IDs
-// that require their own API calls to fetch
-export function generateDirectUrls(game: GameInfo): Array<{
-  provider: string;
-  providerType: "official" | "third-party";
-  url: string;
-  description: string;
-  league: string;
-}> {
-  const urls: Array<{
-    provider: string;
-    providerType: "official" | "third-party";
-    url: string;
-    description: string;
-    league: string;
-  }> = [];
-  
-  const league = game.league.toLowerCase();
-  
-  // ESPN uses different URL patterns for different sports
-  // Soccer uses /match/ while other sports use /boxscore/
-  if (league === "mls") {
-    // Soccer/MLS uses /match/ endpoint
-    urls.push({
-      provider: "ESPN Match Stats",
-      providerType: "third-party",
-      url: `https://www.espn.com/soccer/match/_/gameId/${game.espnGameId}`,
-      description: `ESPN MLS match stats - ${game.awayTeam} @ ${game.homeTeam}`,
-      league: game.league,
-    });
-
-    urls.push({
-      provider: "ESPN Match Summary",
-      providerType: "third-party",
-      url: `https://www.espn.com/soccer/match/_/gameId/${game.espnGameId}/statistics`,
-      description: `ESPN MLS match statistics`,
-      league: game.league,
-    });
-  } else {
-    // Other sports (NBA, MLB, NFL, NHL) use /boxscore/
-    urls.push({
-      provider: "ESPN Box Score",
-      providerType: "third-party",
-      url: `https://www.espn.com/${league}/boxscore/_/gameId/${game.espnGameId}`,
-      description: `ESPN ${game.league} box score - ${game.awayTeam} @ ${game.homeTeam}`,
-      league: game.league,
-    });
-
-    urls.push({
-      provider: "ESPN Game Summary",
-      providerType: "third-party",
-      url: `https://www.espn.com/${league}/game/_/gameId/${game.espnGameId}`,
-      description: `ESPN ${game.league} game summary with all stats`,
-      league: game.league,
-    });
-
-    urls.push({
-      provider: "ESPN Play-by-Play",
-      providerType: "third-party",
-      url: `https://www.espn.com/${league}/playbyplay/_/gameId/${game.espnGameId}`,
-      description: `ESPN ${game.league} play-by-play details`,
-      league: game.league,
-    });
-  }
-
-  return urls;
-}
@@ -0,0 +1,68 @@
+// League detection from a searched team name (detectLeague), which decides the
+// scoreboards a search reads.
+
+import { describe, expect, it } from "vitest";
+import { TEAMS } from "@shared/teams";
+import { detectLeague } from "./storage";
+
+const DEFAULT_LEAGUES = ["nba", "mlb", "nfl", "nhl", "wnba", "ncaam", "ncaaw", "ncaaf"];
+
+describe("detectLeague", () => {
+  it.each(TEAMS.map((team) => [team.league, team.name, team] as const))("finds %s for the %s", (league, _name, team) => {
+    expect(detectLeague(team.name)).toContain(league);
+    expect(detectLeague(team.nickname)).toContain(league);
+  });
+
+  it.each([
+    ["Rangers", ["mlb", "nhl"]],
+    ["Cardinals", ["mlb", "nfl"]],
+    ["Giants", ["mlb", "nfl"]],
+    ["Jets", ["nfl", "nhl"]],
+    ["Kings", ["nba", "nhl"]],
+    ["Panthers", ["nfl", "nhl"]],
+    ["Wolves", ["epl", "nba", "ucl"]],
+  ])("searches every league %s could be in", (text, leagues) => {
+    expect(detectLeague(text).sort()).toEqual(leagues);
+  });
+
+  it.each([
+    // A name inside a longer one belongs to the longer one
+    ["Texas Rangers", ["mlb"]],
+    ["New York Rangers", ["nhl"]],
+    ["Arizona Cardinals", ["nfl"]],
+    ["Angers", ["ligue1", "ucl"]],
+    ["Lakers vs Celtics", ["nba"]],
+  ])("searches only the league of %s", (text, leagues) => {
+    expect(detectLeague(text)).toEqual(leagues);
+  });
+
+  it.each([
+    ["Arsenal", ["epl", "ucl"]],
+    ["Atlético Madrid", ["laliga", "ucl"]],
+    ["Bayern", ["bundesliga", "ucl"]],
+    ["Juventus", ["seriea", "ucl"]],
+    ["PSG", ["ligue1", "ucl"]],
+  ])("adds the Champions League for %s", (text, leagues) => {
+    expect(detectLeague(text)).toEqual(leagues);
+  });
+
+  it("does not add the Champions League for MLS clubs", () => {
+    expect(detectLeague("Inter Miami")).toEqual(["mls"]);
+  });
+
+  it.each(["Duke", "Gonzaga", "", "xyz"])("falls back to the default leagues for %j", (text) => {
+    expect(detectLeague(text)).toEqual(DEFAULT_LEAGUES);
+  });
+
+  it.each([
+    ["Sixers", ["nba"]],
+    ["Habs", ["nhl"]],
+    ["Man Utd", ["epl", "ucl"]],
+  ])("finds %s through its alias", (text, leagues) => {
+    expect(detectLeague(text)).toEqual(leagues);
+  });
+
+  it("is case-insensitive", () => {
+    expect(detectLeague("LAKERS")).toEqual(["nba"]);
+  });
+});
@@ -1,227 +1,121 @@
 import {
   type SearchQuery,
   type SearchResult,
+  type SearchResponse,
+  type PlayerCandidate,
+  type TeamCandidatesResult,
+  type GameResult,
   type BoxScoreLink,
+  type SearchHistoryEntry,
+  type InsertSearch,
+  type User,
+  type InsertUser,
+  type Favorite,
+  type InsertFavorite,
+  searches,
+  users,
+  favorites,
 } from "@shared/schema";
+import { confidentTeamMatch, findTeamsInText, resolveTeamName } from "@shared/teams";
 import {
-  findGame,
-  generateDirectUrls,
-  fetchNbaGameId,
-  fetchMlbGameId,
-  searchPlayerTeam,
+  findGames,
+  findGamesInRange,
+  findHeadToHeadGames,
+  searchPlayerCandidates,
+  pickPlayerCandidate,
+  fetchPlayerCandidate,
+  resolvePlayerTeam,
+  fetchPlayerAppearance,
   type GameInfo,
+  type PlayerTeamInfo,
 } from "./sportsApi";
+import { resolveGameLinks, formatDateForDisplay } from "./linkProviders";
+import { db, pool, type Database } from "./db";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import type { Pool } from "pg";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
-  generateBoxScoreLinks(query: SearchQuery): Promise<SearchResult>;
+  generateBoxScoreLinks(query: SearchQuery): Promise<SearchResponse>;
+  // History is per user; a null userId is the shared signed-out history
+  saveSearch(userId: number | null, query: SearchQuery, response: SearchResponse): Promise<SearchHistoryEntry>;
+  getSearchHistory(userId: number | null, limit: number): Promise<SearchHistoryEntry[]>;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  getFavorites(userId: number): Promise<Favorite[]>;
+  addFavorite(userId: number, favorite: InsertFavorite): Promise<Favorite>;
+  removeFavorite(userId: number, favoriteId: number): Promise<boolean>;
+  sessionStore: session.Store;
 }
 
-function formatDateForDisplay(dateStr: string): string {
-  const date = new Date(dateStr);
-  return date.toLocaleDateString("en-US", {
-    month: "short",
-    day: "numeric",
-    year: "numeric",
-  });
-}
+// European leagues whose clubs also play in the Champions League
+const UCL_LEAGUES = ["epl", "laliga", "bundesliga", "seriea", "ligue1"];
+
+export function detectLeague(teamName: string): string[] {
+  // Every league with a team named in the search (e.g. "Rangers" is both MLB and NHL)
+  const leagues = Array.from(new Set(findTeamsInText(teamName).map((team): string => team.league)));
+
+  // A club plays its domestic league and, on other dates, the Champions League,
+  // so every matched competition is searched
+  if (leagues.some((l) => UCL_LEAGUES.includes(l))) {
+    leagues.push("ucl");
+  }
 
-function detectLeague(teamName: string): string[] {
-  const teamLower = teamName.toLowerCase();
-  const leagues: string[] = [];
-
-  // NBA teams
-  const nbaTeams = [
-    "lakers",
-    "warriors",
-    "celtics",
-    "heat",
-    "bulls",
-    "knicks",
-    "nets",
-    "76ers",
-    "suns",
-    "mavericks",
-    "bucks",
-    "clippers",
-    "nuggets",
-    "grizzlies",
-    "pelicans",
-    "hawks",
-    "hornets",
-    "magic",
-    "pistons",
-    "pacers",
-    "cavaliers",
-    "raptors",
-    "wizards",
-    "timberwolves",
-    "thunder",
-    "blazers",
-    "jazz",
-    "kings",
-    "spurs",
-    "rockets",
-  ];
-  if (nbaTeams.some((t) => teamLower.includes(t))) leagues.push("nba");
-
-  // MLB teams
-  const mlbTeams = [
-    "yankees",
-    "dodgers",
-    "red sox",
-    "cubs",
-    "giants",
-    "astros",
-    "braves",
-    "phillies",
-    "mets",
-    "cardinals",
-    "padres",
-    "mariners",
-    "rangers",
-    "twins",
-    "guardians",
-    "orioles",
-    "rays",
-    "blue jays",
-    "white sox",
-    "royals",
-    "tigers",
-    "angels",
-    "athletics",
-    "brewers",
-    "reds",
-    "pirates",
-    "rockies",
-    "diamondbacks",
-    "nationals",
-    "marlins",
-  ];
-  if (mlbTeams.some((t) => teamLower.includes(t))) leagues.push("mlb");
-
-  // NFL teams
-  const nflTeams = [
-    "cowboys",
-    "patriots",
-    "packers",
-    "chiefs",
-    "49ers",
-    "eagles",
-    "bills",
-    "dolphins",
-    "jets",
-    "ravens",
-    "steelers",
-    "bengals",
-    "browns",
-    "titans",
-    "colts",
-    "texans",
-    "jaguars",
-    "broncos",
-    "raiders",
-    "chargers",
-    "seahawks",
-    "rams",
-    "cardinals",
-    "falcons",
-    "panthers",
-    "saints",
-    "buccaneers",
-    "bears",
-    "lions",
-    "vikings",
-    "commanders",
-  ];
-  if (nflTeams.some((t) => teamLower.includes(t))) leagues.push("nfl");
-
-  // NHL teams
-  const nhlTeams = [
-    "maple leafs",
-    "canadiens",
-    "bruins",
-    "rangers",
-    "blackhawks",
-    "penguins",
-    "golden knights",
-    "avalanche",
-    "oilers",
-    "flames",
-    "canucks",
-    "kraken",
-    "kings",
-    "sharks",
-    "ducks",
-    "coyotes",
-    "stars",
-    "blues",
-    "wild",
-    "predators",
-    "jets",
-    "lightning",
-    "panthers",
-    "hurricanes",
-    "capitals",
-    "flyers",
-    "devils",
-    "islanders",
-    "sabres",
-    "senators",
-    "red wings",
-    "blue jackets",
-  ];
-  if (nhlTeams.some((t) => teamLower.includes(t))) leagues.push("nhl");
-
-  // MLS teams
-  const mlsTeams = [
-    "galaxy",
-    "inter miami",
-    "atlanta united",
-    "sounders",
-    "lafc",
-    "timbers",
-    "whitecaps",
-    "earthquakes",
-    "fc dallas",
-    "dynamo",
-    "sporting kc",
-    "minnesota united",
-    "real salt lake",
-    "colorado rapids",
-    "austin fc",
-    "nashville sc",
-    "charlotte fc",
-    "dc united",
-    "new york red bulls",
-    "nycfc",
-    "new england revolution",
-    "philadelphia union",
-    "columbus crew",
-    "chicago fire",
-    "cf montreal",
-    "toronto fc",
-    "orlando city",
-    "cincinnati",
-  ];
-  if (mlsTeams.some((t) => teamLower.includes(t))) leagues.push("mls");
-
-  // Default to all major leagues if no specific match
+  // Default to the major leagues if no specific match, then college and WNBA -
+  // there are too many college programs to list, so they're only reached here
   if (leagues.length === 0) {
-    leagues.push("nba", "mlb", "nfl", "nhl");
+    leagues.push("nba", "mlb", "nfl", "nhl", "wnba", "ncaam", "ncaaw", "ncaaf");
   }
 
   return leagues;
 }
 
+// Typed team names the registry doesn't know, looked at again after a search found
+// nothing. A clear near miss ("Celitcs") is corrected so the search can be retried;
+// a loose or ambiguous one ("Kngs") comes back as candidates for the user to pick from.
+function reviewTeamNames(query: SearchQuery): { retry: SearchQuery } | { clarify: TeamCandidatesResult } | null {
+  let corrected: SearchQuery | null = null;
+
+  for (const field of ["teamName", "opponentName"] as const) {
+    const typed = query[field].trim();
+    if (!typed || findTeamsInText(typed).length > 0) continue;
+
+    const candidates = resolveTeamName(typed);
+    if (candidates.length === 0) continue;
+
+    const match = confidentTeamMatch(candidates);
+    if (!match) {
+      return { clarify: { type: "team-candidates", query, field, candidates } };
+    }
+    corrected = { ...(corrected || query), [field]: match.name };
+  }
+
+  return corrected ? { retry: corrected } : null;
+}
+
 function generateFallbackLinks(
   query: SearchQuery,
   leagues: string[],
 ): BoxScoreLink[] {
   const links: BoxScoreLink[] = [];
-  const displayDate = formatDateForDisplay(query.gameDate);
-  const searchTerm = query.teamName || query.playerName || "";
+  const displayDate = query.gameDate
+    ? formatDateForDisplay(query.gameDate)
+    : query.startDate && query.endDate
+      ? `${formatDateForDisplay(query.startDate)} - ${formatDateForDisplay(query.endDate)}`
+      : "";
+  const searchTerm = [query.teamName || query.playerName, query.opponentName]
+    .filter(Boolean)
+    .join(" vs ");
   const searchQuery = encodeURIComponent(
-    `${query.teamName} ${query.playerName} ${displayDate} box score`.trim(),
+    `${query.teamName} ${query.opponentName ? `vs ${query.opponentName}` : ""} ${query.playerName} ${displayDate} box score`
+      .replace(/\s+/g, " ")
+      .trim(),
   );
 
   leagues.forEach((league) => {
@@ -253,151 +147,155 @@ function generateFallbackLinks(
   return links;
 }
 
+// Searches kept by MemStorage; older entries are dropped
+const MEM_HISTORY_LIMIT = 100;
+
+function toSearchRecord(userId: number | null, query: SearchQuery, response: SearchResponse): InsertSearch {
+  if (response.type === "player-candidates" || response.type === "team-candidates") {
+    return { userId, query, outcome: response.type, games: [], links: [] };
+  }
+
+  return {
+    userId,
+    query,
+    outcome: response.games.length > 0 ? "found" : "not-found",
+    games: response.games,
+    links: response.links,
+  };
+}
+
 export class MemStorage implements IStorage {
-  async generateBoxScoreLinks(query: SearchQuery): Promise<SearchResult> {
+  private history: SearchHistoryEntry[] = [];
+  private nextSearchId = 1;
+  private users = new Map<number, User>();
+  private nextUserId = 1;
+  private favorites = new Map<number, Favorite>();
+  private nextFavoriteId = 1;
+  sessionStore: session.Store;
+
+  constructor(sessionStore?: session.Store) {
+    // Prune expired sessions once a day
+    this.sessionStore = sessionStore ?? new MemoryStore({ checkPeriod: 86_400_000 });
+  }
+
+  async generateBoxScoreLinks(query: SearchQuery): Promise<SearchResponse> {
     let teamNameToUse = query.teamName || "";
-    let resolvedPlayerTeam: {
-      playerName: string;
-      teamName: string;
-      league: string;
-    } | null = null;
+    let resolvedPlayerTeam: PlayerTeamInfo | null = null;
+    let candidate: PlayerCandidate | null = null;
 
-    // If no team name provided but player name is, look up the player's team
+    // If no team name provided but player name is, look up the team the player
+    // was on for the searched date (the end of a range), or their current team
     if (!teamNameToUse && query.playerName) {
-      const playerTeam = await searchPlayerTeam(query.playerName);
-      if (playerTeam) {
-        teamNameToUse = playerTeam.teamName;
-        resolvedPlayerTeam = {
-          playerName: playerTeam.playerName,
-          teamName: playerTeam.teamName,
-          league: playerTeam.league,
-        };
+      if (query.playerId && query.playerLeague) {
+        candidate = await fetchPlayerCandidate(query.playerId, query.playerLeague);
+      } else {
+        // Several athletes share the name - let the user pick rather than guess
+        const candidates = await searchPlayerCandidates(query.playerName);
+        candidate = pickPlayerCandidate(candidates);
+        if (!candidate && candidates.length > 1) {
+          return { type: "player-candidates", query, candidates };
+        }
+      }
+
+      const asOfDate = query.gameDate || query.endDate || undefined;
+      resolvedPlayerTeam = candidate ? await resolvePlayerTeam(candidate, asOfDate) : null;
+      if (resolvedPlayerTeam) {
+        teamNameToUse = resolvedPlayerTeam.teamName;
       }
     }
 
-    // Use teamName to detect league and find game
+    // Use teamName to detect league and find game - a resolved player already
+    // tells us the league, and game logs may only give a team abbreviation
     const searchTerm = teamNameToUse || query.playerName || "";
-    const leagues = detectLeague(searchTerm);
+    const opponentName = query.opponentName.trim();
+    let leagues = resolvedPlayerTeam
+      ? [resolvedPlayerTeam.league.toLowerCase()]
+      : detectLeague(searchTerm);
+
+    // Both teams must play in the league, so narrow to the leagues they share
+    if (opponentName) {
+      const opponentLeagues = detectLeague(opponentName);
+      const shared = leagues.filter((l) => opponentLeagues.includes(l));
+      if (shared.length > 0) leagues = shared;
+    }
 
-    // Try to find the game using sports APIs
-    const game = teamNameToUse
-      ? await findGame(teamNameToUse, query.gameDate, leagues)
-      : null;
+    // Try to find the games using sports APIs - a single date, a date range,
+    // or without a date, every meeting between the two teams this season
+    let foundGames: GameInfo[] = [];
+    if (teamNameToUse && query.gameDate) {
+      foundGames = await findGames(teamNameToUse, query.gameDate, leagues, opponentName || undefined);
+    } else if (teamNameToUse && query.startDate && query.endDate) {
+      foundGames = await findGamesInRange(
+        teamNameToUse,
+        query.startDate,
+        query.endDate,
+        leagues,
+        opponentName || undefined,
+      );
+    } else if (teamNameToUse && opponentName) {
+      foundGames = await findHeadToHeadGames(teamNameToUse, opponentName, leagues);
+    }
 
+    let games: GameResult[] = [];
     let links: BoxScoreLink[] = [];
 
-    if (game) {
-      // We found the game - generate direct URLs with real game IDs
-      const directUrls = generateDirectUrls(game);
-      links = directUrls.map((url, index) => ({
-        id: `${url.provider.toLowerCase().replace(/\s+/g, "-")}-${index}`,
-        provider: url.provider,
-        providerType: url.providerType,
-        league: url.league,
-        url: url.url,
-        description: url.description,
-        linkType: "direct" as const,
+    if (foundGames.length > 0) {
+      // We found games - every registered provider for each game's league builds its
+      // links. Games, and each game's links and appearance check, resolve concurrently.
+      games = await Promise.all(foundGames.map(async (game): Promise<GameResult> => {
+        const [gameLinks, playerAppearance] = await Promise.all([
+          resolveGameLinks(game),
+          // Confirm the searched player actually took part, so we don't send
+          // links for games they sat out
+          query.playerName
+            ? fetchPlayerAppearance(
+                game.league,
+                game.espnGameId,
+                resolvedPlayerTeam?.playerName || query.playerName,
+                candidate?.playerId,
+              )
+            : null,
+        ]);
+
+        return {
+          espnGameId: game.espnGameId,
+          league: game.league,
+          homeTeam: game.homeTeam,
+          awayTeam: game.awayTeam,
+          gameDate: game.gameDate,
+          ...(game.gameNumber && { gameNumber: game.gameNumber }),
+          links: gameLinks,
+          ...(playerAppearance && { playerAppearance }),
+        };
       }));
-
-      // For NBA games, add NBA.com links
-      if (game.league === "NBA") {
-        const [year, month, day] = query.gameDate.split("-");
-
-        // Try to fetch NBA game ID for direct box score link
-        const nbaGame = await fetchNbaGameId(
-          query.gameDate,
-          game.homeTeamAbbr,
-          game.awayTeamAbbr,
-        );
-
-        if (nbaGame) {
-          // NBA.com direct box score URL format: https://www.nba.com/game/{away}-vs-{home}-{gameId}/box-score
-          links.unshift({
-            id: "nba-com-boxscore",
-            provider: "NBA.com",
-            providerType: "official",
-            league: "NBA",
-            url: `https://www.nba.com/game/${nbaGame.awayAbbr}-vs-${nbaGame.homeAbbr}-${nbaGame.gameId}/box-score`,
-            description: `Official NBA box score - ${game.awayTeam} @ ${game.homeTeam}`,
-            linkType: "direct",
-          });
-        }
-        // No fallback to games page - only show direct links
-
-        // Basketball Reference direct link using date-based URL
-        const brDate = `${year}${month}${day}`;
-        const homeAbbr = game.homeTeamAbbr.toUpperCase();
-        links.push({
-          id: "bbref-boxscore",
-          provider: "Basketball Reference",
-          providerType: "third-party",
-          league: "NBA",
-          url: `https://www.basketball-reference.com/boxscores/${brDate}0${homeAbbr}.html`,
-          description: `Basketball Reference box score - ${game.awayTeam} @ ${game.homeTeam}`,
-          linkType: "direct",
-        });
+    } else {
+      // No game found - a misspelled team is searched again as the team it was close
+      // to (corrected names are exact, so this retries at most once) or offered as
+      // candidates; otherwise generate search-based fallback links
+      const review = reviewTeamNames(query);
+      if (review && "clarify" in review) {
+        return review.clarify;
       }
-
-      // For MLB games, add MLB.com links
-      if (game.league === "MLB") {
-        const [year, month, day] = query.gameDate.split("-");
-
-        // Try to fetch MLB game ID for direct box score link
-        const mlbGame = await fetchMlbGameId(
-          query.gameDate,
-          game.homeTeam,
-          game.awayTeam,
-        );
-
-        if (mlbGame) {
-          // MLB.com box score URL format: https://www.mlb.com/gameday/{away-slug}-vs-{home-slug}/{year}/{month}/{day}/{gamePk}/final/box
-          links.unshift({
-            id: "mlb-com-boxscore",
-            provider: "MLB.com",
-            providerType: "official",
-            league: "MLB",
-            url: `https://www.mlb.com/gameday/${mlbGame.awaySlug}-vs-${mlbGame.homeSlug}/${year}/${month}/${day}/${mlbGame.gamePk}/final/box`,
-            description: `Official MLB box score - ${mlbGame.awayTeam} @ ${mlbGame.homeTeam}`,
-            linkType: "direct",
-          });
+      if (review) {
+        const retried = await this.generateBoxScoreLinks(review.retry);
+        if (retried.type === "results") {
+          retried.matchInfo.correctedFrom = [query.teamName, query.opponentName].filter(Boolean).join(" vs ");
         }
-
-        // Baseball Reference direct link using date-based URL
-        const brDate = `${year}${month}${day}`;
-        links.push({
-          id: "bref-boxscore",
-          provider: "Baseball Reference",
-          providerType: "third-party",
-          league: "MLB",
-          url: `https://www.baseball-reference.com/boxes/?date=${year}-${month}-${day}`,
-          description: `Baseball Reference games on ${formatDateForDisplay(query.gameDate)}`,
-          linkType: "search",
-        });
+        return retried;
       }
-
-      // Add some search fallbacks too
-      const displayDate = formatDateForDisplay(query.gameDate);
-      links.push({
-        id: "sofascore-search",
-        provider: "SofaScore",
-        providerType: "third-party",
-        league: game.league,
-        url: `https://www.sofascore.com/search?q=${encodeURIComponent(teamNameToUse || query.playerName)}`,
-        description: "Search SofaScore for detailed match statistics",
-        linkType: "search",
-      });
-    } else {
-      // No game found - generate search-based fallback links
       links = generateFallbackLinks(query, leagues);
     }
 
-    const gameDate = new Date(query.gameDate);
-    const formattedDate = gameDate.toLocaleDateString("en-US", {
-      weekday: "long",
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
+    const formattedDate = query.gameDate
+      ? new Date(query.gameDate).toLocaleDateString("en-US", {
+          weekday: "long",
+          year: "numeric",
+          month: "long",
+          day: "numeric",
+        })
+      : query.startDate && query.endDate
+        ? `${formatDateForDisplay(query.startDate)} - ${formatDateForDisplay(query.endDate)}`
+        : "All meetings this season";
 
     // Include resolved player team info in matchInfo if we looked it up
     const displayTeamName = resolvedPlayerTeam
@@ -405,17 +303,155 @@ export class MemStorage implements IStorage {
       : query.teamName;
 
     return {
+      type: "results",
       query,
+      games,
       links,
       matchInfo: {
         playerName: query.playerName,
         teamName: displayTeamName,
+        ...(opponentName && { opponentName }),
         gameDate: query.gameDate,
         formattedDate,
-        ...(resolvedPlayerTeam && { resolvedFromPlayer: true }),
+        ...(resolvedPlayerTeam && {
+          resolvedFromPlayer: true,
+          teamInference: {
+            teamName: resolvedPlayerTeam.teamName,
+            source: resolvedPlayerTeam.teamSource,
+            reason: resolvedPlayerTeam.teamReason,
+          },
+        }),
       },
     };
   }
+
+  async saveSearch(userId: number | null, query: SearchQuery, response: SearchResponse): Promise<SearchHistoryEntry> {
+    const record = toSearchRecord(userId, query, response);
+    const entry: SearchHistoryEntry = {
+      id: this.nextSearchId++,
+      userId,
+      query: record.query,
+      outcome: record.outcome,
+      games: record.games ?? [],
+      links: record.links ?? [],
+      createdAt: new Date(),
+    };
+
+    this.history.unshift(entry);
+    this.history.length = Math.min(this.history.length, MEM_HISTORY_LIMIT);
+    return entry;
+  }
+
+  async getSearchHistory(userId: number | null, limit: number): Promise<SearchHistoryEntry[]> {
+    return this.history.filter((entry) => entry.userId === userId).slice(0, limit);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.username === username,
+    );
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user: User = { ...insertUser, id: this.nextUserId++ };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getFavorites(userId: number): Promise<Favorite[]> {
+    return Array.from(this.favorites.values()).filter((f) => f.userId === userId);
+  }
+
+  async addFavorite(userId: number, insertFavorite: InsertFavorite): Promise<Favorite> {
+    const favorite: Favorite = {
+      id: this.nextFavoriteId++,
+      userId,
+      kind: insertFavorite.kind,
+      name: insertFavorite.name,
+      playerId: insertFavorite.playerId ?? "",
+      playerLeague: insertFavorite.playerLeague ?? "",
+      createdAt: new Date(),
+    };
+    this.favorites.set(favorite.id, favorite);
+    return favorite;
+  }
+
+  async removeFavorite(userId: number, favoriteId: number): Promise<boolean> {
+    const favorite = this.favorites.get(favoriteId);
+    if (!favorite || favorite.userId !== userId) return false;
+    return this.favorites.delete(favoriteId);
+  }
+}
+
+// Same search logic as MemStorage, with history, accounts and sessions persisted to Postgres
+export class DbStorage extends MemStorage {
+  constructor(private database: Database, pgPool: Pool) {
+    super(new PostgresSessionStore({ pool: pgPool, createTableIfMissing: true }));
+  }
+
+  async saveSearch(userId: number | null, query: SearchQuery, response: SearchResponse): Promise<SearchHistoryEntry> {
+    const [entry] = await this.database
+      .insert(searches)
+      .values(toSearchRecord(userId, query, response))
+      .returning();
+    return entry;
+  }
+
+  async getSearchHistory(userId: number | null, limit: number): Promise<SearchHistoryEntry[]> {
+    return this.database
+      .select()
+      .from(searches)
+      .where(userId === null ? isNull(searches.userId) : eq(searches.userId, userId))
+      .orderBy(desc(searches.createdAt))
+      .limit(limit);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.database.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.database
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.database.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getFavorites(userId: number): Promise<Favorite[]> {
+    return this.database
+      .select()
+      .from(favorites)
+      .where(eq(favorites.userId, userId))
+      .orderBy(favorites.createdAt);
+  }
+
+  async addFavorite(userId: number, insertFavorite: InsertFavorite): Promise<Favorite> {
+    const [favorite] = await this.database
+      .insert(favorites)
+      .values({ ...insertFavorite, userId })
+      .returning();
+    return favorite;
+  }
+
+  async removeFavorite(userId: number, favoriteId: number): Promise<boolean> {
+    const removed = await this.database
+      .delete(favorites)
+      .where(and(eq(favorites.id, favoriteId), eq(favorites.userId, userId)))
+      .returning({ id: favorites.id });
+    return removed.length > 0;
+  }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage =
+  db && pool ? new DbStorage(db, pool) : new MemStorage();
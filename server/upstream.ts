@@ -0,0 +1,219 @@
+// Upstream HTTP client - every ESPN, NBA, WNBA, NHL and MLB request goes through here.
+// Adds per-host timeouts, retries with jittered backoff on 429/5xx, and a per-host
+// circuit breaker, and reports failures as the typed errors below. Record/replay of
+// fixtures (see upstreamFixtures.ts) also hooks in here.
+
+import { fetchCached } from "./responseCache";
+import { fixtureMode, fixturePath, normalizeFixtureUrl, readFixture, recordFixture } from "./upstreamFixtures";
+
+const DEFAULT_HEADERS = {
+  "Accept": "application/json",
+  "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+};
+
+const DEFAULT_TIMEOUT_MS = 8000;
+
+// Request timeout per upstream host
+const HOST_TIMEOUTS_MS: Record<string, number> = {
+  "site.api.espn.com": 8000,
+  "site.web.api.espn.com": 5000,
+  // The full-season schedule files are several megabytes
+  "cdn.nba.com": 8000,
+  "cdn.wnba.com": 8000,
+  "statsapi.mlb.com": 6000,
+  "api-web.nhle.com": 5000,
+};
+
+// Attempts per request, including the first
+const MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 250;
+// Longest Retry-After we'll wait out rather than failing the request
+const MAX_RETRY_AFTER_MS = 5000;
+
+// Consecutive failed requests before a host's circuit opens, and how long it stays open
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_OPEN_MS = 30_000;
+
+export class UpstreamError extends Error {
+  constructor(message: string, readonly url: string, readonly host: string) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
+
+// The host answered with a non-2xx status
+export class UpstreamHttpError extends UpstreamError {
+  constructor(url: string, host: string, readonly status: number) {
+    super(`${host} responded ${status}`, url, host);
+    this.name = "UpstreamHttpError";
+  }
+}
+
+export class UpstreamTimeoutError extends UpstreamError {
+  constructor(url: string, host: string, readonly timeoutMs: number) {
+    super(`${host} timed out after ${timeoutMs}ms`, url, host);
+    this.name = "UpstreamTimeoutError";
+  }
+}
+
+// DNS, connection or TLS failure before any response
+export class UpstreamNetworkError extends UpstreamError {
+  constructor(url: string, host: string, readonly cause: unknown) {
+    super(`${host} request failed: ${cause instanceof Error ? cause.message : String(cause)}`, url, host);
+    this.name = "UpstreamNetworkError";
+  }
+}
+
+// The host has failed repeatedly and is skipped until the circuit closes
+export class UpstreamCircuitOpenError extends UpstreamError {
+  constructor(url: string, host: string, readonly retryAt: number) {
+    super(`${host} circuit open until ${new Date(retryAt).toISOString()}`, url, host);
+    this.name = "UpstreamCircuitOpenError";
+  }
+}
+
+// Replay mode found no recorded response for the URL
+export class UpstreamFixtureMissingError extends UpstreamError {
+  constructor(url: string, host: string, readonly fixturePath: string) {
+    super(`No fixture recorded for ${normalizeFixtureUrl(url)} (expected ${fixturePath})`, url, host);
+    this.name = "UpstreamFixtureMissingError";
+  }
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openUntil: number;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+function circuitFor(host: string): CircuitState {
+  let circuit = circuits.get(host);
+  if (!circuit) {
+    circuit = { consecutiveFailures: 0, openUntil: 0 };
+    circuits.set(host, circuit);
+  }
+  return circuit;
+}
+
+function recordSuccess(host: string) {
+  const circuit = circuitFor(host);
+  circuit.consecutiveFailures = 0;
+  circuit.openUntil = 0;
+}
+
+// Once open, a single failure after the cooldown (the half-open trial) reopens it
+function recordFailure(host: string) {
+  const circuit = circuitFor(host);
+  circuit.consecutiveFailures++;
+  if (circuit.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openUntil = Date.now() + CIRCUIT_OPEN_MS;
+    console.error(`Upstream circuit opened for ${host} after ${circuit.consecutiveFailures} failures`);
+  }
+}
+
+function isRetryable(error: UpstreamError): boolean {
+  if (error instanceof UpstreamHttpError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return error instanceof UpstreamTimeoutError || error instanceof UpstreamNetworkError;
+}
+
+// Full-jitter exponential backoff, or the server's Retry-After when it's short enough
+function backoffDelay(attempt: number, retryAfter: string | null): number {
+  const retryAfterMs = retryAfter ? Number(retryAfter) * 1000 : NaN;
+  if (retryAfterMs >= 0 && retryAfterMs <= MAX_RETRY_AFTER_MS) {
+    return retryAfterMs;
+  }
+  return Math.random() * BACKOFF_BASE_MS * 2 ** attempt;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function attemptFetch(url: string, host: string, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, { headers: DEFAULT_HEADERS, signal: controller.signal });
+    return fixtureMode === "record" ? await recordFixture(url, response) : response;
+  } catch (error: any) {
+    if (error?.name === "AbortError") {
+      throw new UpstreamTimeoutError(url, host, timeoutMs);
+    }
+    throw new UpstreamNetworkError(url, host, error);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Fetch an upstream URL, resolving only with a 2xx response. Anything else is
+// thrown as an UpstreamError once retries are used up.
+export async function fetchUpstream(url: string): Promise<Response> {
+  const host = new URL(url).host;
+
+  if (fixtureMode === "replay") {
+    return replayUpstream(url, host);
+  }
+
+  const circuit = circuitFor(host);
+  if (circuit.openUntil > Date.now()) {
+    throw new UpstreamCircuitOpenError(url, host, circuit.openUntil);
+  }
+
+  const timeoutMs = HOST_TIMEOUTS_MS[host] || DEFAULT_TIMEOUT_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    let error: UpstreamError;
+    let retryAfter: string | null = null;
+
+    try {
+      const response = await attemptFetch(url, host, timeoutMs);
+      if (response.ok) {
+        recordSuccess(host);
+        return response;
+      }
+      retryAfter = response.headers.get("retry-after");
+      error = new UpstreamHttpError(url, host, response.status);
+    } catch (caught) {
+      error = caught as UpstreamError;
+    }
+
+    if (!isRetryable(error)) {
+      // A 404 or 400 is an answer about this URL, not a sign the host is down
+      throw error;
+    }
+
+    if (attempt + 1 >= MAX_ATTEMPTS) {
+      recordFailure(host);
+      throw error;
+    }
+
+    await sleep(backoffDelay(attempt, retryAfter));
+  }
+}
+
+// Serve a recorded response; a miss is an error, never a live request
+async function replayUpstream(url: string, host: string): Promise<Response> {
+  const response = await readFixture(url);
+  if (!response) {
+    const error = new UpstreamFixtureMissingError(url, host, fixturePath(url));
+    console.error(`[fixtures] MISSING ${error.message}`);
+    throw error;
+  }
+  if (!response.ok) {
+    throw new UpstreamHttpError(url, host, response.status);
+  }
+  return response;
+}
+
+// Fetch and parse an upstream JSON document, through the response cache when a TTL is given.
+// Recording and replaying skip the cache so every call reaches the fixtures.
+export async function fetchUpstreamJson<T = any>(url: string, options: { cacheTtl?: number } = {}): Promise<T> {
+  const response = options.cacheTtl && fixtureMode === "off"
+    ? await fetchCached(url, options.cacheTtl, fetchUpstream)
+    : await fetchUpstream(url);
+  return response.json();
+}
@@ -0,0 +1,99 @@
+// Record/replay of upstream responses: URL normalization, recording live responses as
+// fixtures in a temporary UPSTREAM_FIXTURES_DIR, and replaying them with the host gone.
+
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { normalizeFixtureUrl } from "./upstreamFixtures";
+
+describe("normalizeFixtureUrl", () => {
+  it.each([
+    ["https://Site.API.espn.com/scoreboard?limit=1000&dates=20240110", "https://site.api.espn.com/scoreboard?dates=20240110&limit=1000"],
+    ["https://statsapi.mlb.com:443/api/v1/schedule?sportId=1&date=2024-06-15", "https://statsapi.mlb.com/api/v1/schedule?date=2024-06-15&sportId=1"],
+    ["https://cdn.nba.com/scoreboard.json#today", "https://cdn.nba.com/scoreboard.json"],
+    ["http://127.0.0.1:5099/nhl-api/v1/schedule/2024-01-13", "http://127.0.0.1:5099/nhl-api/v1/schedule/2024-01-13"],
+  ])("%s -> %s", (url, normalized) => {
+    expect(normalizeFixtureUrl(url)).toBe(normalized);
+  });
+});
+
+describe("record and replay", () => {
+  let fixturesDir: string;
+  let server: Server;
+  let baseUrl: string;
+  let requests = 0;
+
+  // The upstream client reads the fixture mode and directory when it loads
+  async function loadUpstream(mode: "record" | "replay") {
+    vi.resetModules();
+    vi.stubEnv("UPSTREAM_FIXTURES", mode);
+    vi.stubEnv("UPSTREAM_FIXTURES_DIR", fixturesDir);
+    return import("./upstream");
+  }
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    fixturesDir = await mkdtemp(path.join(tmpdir(), "upstream-fixtures-"));
+
+    server = createServer((req, res) => {
+      requests++;
+      if (req.url?.startsWith("/missing")) {
+        res.writeHead(404, { "Content-Type": "application/json" }).end(JSON.stringify({ message: "Not found" }));
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ path: req.url }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await new Promise((resolve) => server?.close(resolve));
+    await rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  it("records live responses, including errors, as fixture files", async () => {
+    const { fetchUpstreamJson, UpstreamHttpError } = await loadUpstream("record");
+
+    expect(await fetchUpstreamJson(`${baseUrl}/scoreboard?dates=20240110&limit=1000`)).toEqual({
+      path: "/scoreboard?dates=20240110&limit=1000",
+    });
+    await expect(fetchUpstreamJson(`${baseUrl}/missing`)).rejects.toBeInstanceOf(UpstreamHttpError);
+
+    const [hostDir] = await readdir(fixturesDir);
+    expect((await readdir(path.join(fixturesDir, hostDir))).sort()).toEqual([
+      expect.stringMatching(/^missing-[0-9a-f]{12}\.json$/),
+      expect.stringMatching(/^scoreboard-[0-9a-f]{12}\.json$/),
+    ]);
+  });
+
+  it("replays recorded responses without reaching the host", async () => {
+    const { fetchUpstreamJson, UpstreamHttpError } = await loadUpstream("replay");
+    const before = requests;
+
+    // Query params in another order are the same fixture
+    expect(await fetchUpstreamJson(`${baseUrl}/scoreboard?limit=1000&dates=20240110`)).toEqual({
+      path: "/scoreboard?dates=20240110&limit=1000",
+    });
+    const missing = fetchUpstreamJson(`${baseUrl}/missing`);
+    await expect(missing).rejects.toBeInstanceOf(UpstreamHttpError);
+    await expect(missing).rejects.toMatchObject({ status: 404 });
+    expect(requests).toBe(before);
+  });
+
+  it("fails a replayed call that has no fixture", async () => {
+    const { fetchUpstreamJson, UpstreamFixtureMissingError } = await loadUpstream("replay");
+    const before = requests;
+
+    const call = fetchUpstreamJson(`${baseUrl}/scoreboard?dates=20240111`);
+    await expect(call).rejects.toBeInstanceOf(UpstreamFixtureMissingError);
+    await expect(call).rejects.toMatchObject({ fixturePath: expect.stringContaining(fixturesDir) });
+    expect(requests).toBe(before);
+  });
+});
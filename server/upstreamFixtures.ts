@@ -0,0 +1,88 @@
+// Record/replay of upstream responses as fixture files, for running the server offline.
+//
+// UPSTREAM_FIXTURES=record  saves every upstream response under the fixtures directory
+// UPSTREAM_FIXTURES=replay  serves upstream calls only from fixtures; a missing fixture fails the call
+//
+// Fixtures are keyed by normalized URL and live in UPSTREAM_FIXTURES_DIR (default fixtures/upstream).
+
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+
+export type FixtureMode = "off" | "record" | "replay";
+
+interface Fixture {
+  url: string;
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+function parseFixtureMode(value: string | undefined): FixtureMode {
+  if (value === "record" || value === "replay") return value;
+  if (value && value !== "off") {
+    throw new Error(`UPSTREAM_FIXTURES must be "record", "replay" or "off", got "${value}"`);
+  }
+  return "off";
+}
+
+export const fixtureMode = parseFixtureMode(process.env.UPSTREAM_FIXTURES);
+
+const fixturesDir = path.resolve(process.env.UPSTREAM_FIXTURES_DIR || "fixtures/upstream");
+
+if (fixtureMode !== "off") {
+  console.log(`[fixtures] ${fixtureMode} mode, using ${fixturesDir}`);
+}
+
+// Same request, same key: lowercase host, default port dropped, query params sorted
+export function normalizeFixtureUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = "";
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+export function fixturePath(url: string): string {
+  const normalized = normalizeFixtureUrl(url);
+  const { host, pathname } = new URL(normalized);
+  const slug = pathname.replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "").slice(-80);
+  const hash = createHash("sha1").update(normalized).digest("hex").substring(0, 12);
+  return path.join(fixturesDir, host.replace(/[^a-zA-Z0-9.-]/g, "_"), `${slug || "root"}-${hash}.json`);
+}
+
+// The raw response for a URL, or null when no fixture was recorded for it
+export async function readFixture(url: string): Promise<Response | null> {
+  let fixture: Fixture;
+  try {
+    fixture = JSON.parse(await readFile(fixturePath(url), "utf8"));
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null;
+    throw error;
+  }
+
+  return new Response(fixture.body, {
+    status: fixture.status,
+    headers: { "Content-Type": fixture.contentType },
+  });
+}
+
+// Save a live response as a fixture and hand back an unread copy of it
+export async function recordFixture(url: string, response: Response): Promise<Response> {
+  const body = await response.text();
+  const contentType = response.headers.get("content-type") || "application/json";
+  const fixture: Fixture = {
+    url: normalizeFixtureUrl(url),
+    status: response.status,
+    contentType,
+    body,
+  };
+
+  const file = fixturePath(url);
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(fixture, null, 2));
+
+  return new Response(body, {
+    status: response.status,
+    headers: { "Content-Type": contentType },
+  });
+}
@@ -1,13 +1,44 @@
 import { z } from "zod";
+import { pgTable, serial, text, jsonb, timestamp, integer } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { TEAMS } from "./teams";
+
+// Longest startDate/endDate window a single search may cover
+export const MAX_DATE_RANGE_DAYS = 31;
+
+function daysBetween(startDate: string, endDate: string): number {
+  return (Date.parse(endDate) - Date.parse(startDate)) / 86_400_000;
+}
 
 // Search query schema - requires either playerName OR teamName (or both), plus gameDate
+// or a startDate/endDate range. The date may be left out when both teamName and
+// opponentName are given, which searches every meeting between the two teams this season.
 export const searchQuerySchema = z.object({
   playerName: z.string().optional().default(""),
   teamName: z.string().optional().default(""),
-  gameDate: z.string().min(1, "Game date is required"),
+  opponentName: z.string().optional().default(""),
+  gameDate: z.string().optional().default(""),
+  startDate: z.string().optional().default(""),
+  endDate: z.string().optional().default(""),
+  // ESPN athlete chosen from a candidates response, skipping the name search
+  playerId: z.string().optional().default(""),
+  playerLeague: z.string().optional().default(""),
 }).refine(
   (data) => data.playerName.trim().length > 0 || data.teamName.trim().length > 0,
   { message: "Either player name or team name is required", path: ["teamName"] }
+).refine(
+  (data) =>
+    data.gameDate.trim().length > 0 ||
+    (data.startDate.trim().length > 0 && data.endDate.trim().length > 0) ||
+    (data.teamName.trim().length > 0 && data.opponentName.trim().length > 0),
+  { message: "Game date is required unless both team and opponent are given", path: ["gameDate"] }
+).refine(
+  (data) =>
+    (!data.startDate && !data.endDate) ||
+    (data.startDate.length > 0 && data.endDate.length > 0 &&
+      daysBetween(data.startDate, data.endDate) >= 0 &&
+      daysBetween(data.startDate, data.endDate) < MAX_DATE_RANGE_DAYS),
+  { message: `Date range must be in order and at most ${MAX_DATE_RANGE_DAYS} days`, path: ["gameDate"] }
 );
 
 export type SearchQuery = z.infer<typeof searchQuerySchema>;
@@ -23,17 +54,226 @@ export interface BoxScoreLink {
   linkType: "search" | "direct";
 }
 
+// Whether a searched player took part in a game, from the ESPN box score
+export interface PlayerAppearance {
+  playerName: string;
+  // "unknown" when the box score can't tell - football box scores list only players
+  // who recorded a stat
+  status: "played" | "inactive" | "not-on-roster" | "unknown";
+  teamName?: string;
+  // ESPN's reason for a DNP/inactive, e.g. "COACH'S DECISION"
+  reason?: string;
+  statLine?: Array<{ label: string; value: string }>;
+}
+
+// A game matching the search, with the links built for it
+export interface GameResult {
+  espnGameId: string;
+  league: string;
+  homeTeam: string;
+  awayTeam: string;
+  gameDate: string;
+  // 1 or 2 for doubleheaders
+  gameNumber?: number;
+  links: BoxScoreLink[];
+  // Only checked when the search included a player name
+  playerAppearance?: PlayerAppearance;
+}
+
 export interface SearchResult {
+  type: "results";
   query: SearchQuery;
+  // Every game the search matched, one link group per game
+  games: GameResult[];
+  // Search fallback links, only populated when no game was found
   links: BoxScoreLink[];
   matchInfo: {
     playerName: string;
     teamName: string;
+    opponentName?: string;
     gameDate: string;
     formattedDate: string;
+    resolvedFromPlayer?: boolean;
+    // The team names as typed, when a misspelling was searched as the team it was close to
+    correctedFrom?: string;
+    // Which team a player-only search used, and why
+    teamInference?: {
+      teamName: string;
+      source: "game-log" | "previous-game" | "current-team";
+      reason: string;
+    };
   };
 }
 
+// An ESPN athlete matching a searched player name
+export interface PlayerCandidate {
+  playerId: string;
+  name: string;
+  // Our league ID, e.g. "nba"
+  league: string;
+  teamName: string;
+  teamAbbr: string;
+  position: string;
+  headshotUrl?: string;
+  // Higher is a closer name match; 100 is an exact match
+  matchScore: number;
+}
+
+// Returned instead of results when a player name matches several athletes,
+// so the user can pick one and search again with its playerId
+export interface PlayerCandidatesResult {
+  type: "player-candidates";
+  query: SearchQuery;
+  candidates: PlayerCandidate[];
+}
+
+// A registry team a typed team name may mean
+export interface TeamCandidate {
+  teamId: string;
+  name: string;
+  league: LeagueId;
+  // The name or alias the typed text was closest to, e.g. "Celtics"
+  matchedName: string;
+  // 100 is an exact match; fuzzy matches score by edit distance
+  confidence: number;
+}
+
+// Returned instead of fallback links when a typed team name only loosely matches
+// known teams, so the user can pick one and search again with its name
+export interface TeamCandidatesResult {
+  type: "team-candidates";
+  query: SearchQuery;
+  field: "teamName" | "opponentName";
+  candidates: TeamCandidate[];
+}
+
+export type SearchResponse = SearchResult | PlayerCandidatesResult | TeamCandidatesResult;
+
+// Search history - one row per search, with what it resolved to
+export type SearchOutcome = "found" | "not-found" | "player-candidates" | "team-candidates";
+
+export const searches = pgTable("searches", {
+  id: serial("id").primaryKey(),
+  // Signed-in user who ran the search; null for signed-out searches
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  query: jsonb("query").$type<SearchQuery>().notNull(),
+  outcome: text("outcome").$type<SearchOutcome>().notNull(),
+  // Games the search resolved to, each with its links
+  games: jsonb("games").$type<GameResult[]>().notNull().default([]),
+  // Fallback search links when no game was found
+  links: jsonb("links").$type<BoxScoreLink[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type SearchHistoryEntry = typeof searches.$inferSelect;
+export type InsertSearch = typeof searches.$inferInsert;
+
+// User accounts - local username/password login
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  // scrypt hash as "hash.salt"
+  password: text("password").notNull(),
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().min(3, "Username must be at least 3 characters").max(32),
+  password: (schema) => schema.min(8, "Password must be at least 8 characters"),
+}).pick({ username: true, password: true });
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+// What the API returns for the signed-in user
+export type PublicUser = Omit<User, "password">;
+
+// Saved teams and players, searched together for yesterday's games
+export type FavoriteKind = "team" | "player";
+
+export const favorites = pgTable("favorites", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  kind: text("kind").$type<FavoriteKind>().notNull(),
+  name: text("name").notNull(),
+  // ESPN athlete pinned for player favorites, so the search skips the candidates step
+  playerId: text("player_id").notNull().default(""),
+  playerLeague: text("player_league").notNull().default(""),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertFavoriteSchema = createInsertSchema(favorites, {
+  kind: z.enum(["team", "player"]),
+  name: (schema) => schema.trim().min(1, "Name is required").max(100),
+}).pick({ kind: true, name: true, playerId: true, playerLeague: true });
+
+export type InsertFavorite = z.infer<typeof insertFavoriteSchema>;
+export type Favorite = typeof favorites.$inferSelect;
+
+// Cached upstream responses, keyed by request URL
+export const responseCache = pgTable("response_cache", {
+  key: text("key").primaryKey(),
+  body: text("body").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// One entry per favorite from a favorites search
+export interface FavoriteSearchResult {
+  favorite: Favorite;
+  response: SearchResponse;
+}
+
+// Normalized box score, built from ESPN's game summary
+export type Sport = typeof LEAGUES[number]["sport"];
+
+export interface BoxScoreStat {
+  label: string;
+  value: string;
+}
+
+export interface BoxScoreTeam {
+  name: string;
+  abbreviation: string;
+  homeAway: "home" | "away";
+  score: string;
+  // Score per quarter, period, inning or half, in order
+  periodScores: string[];
+  totals: BoxScoreStat[];
+}
+
+export interface BoxScorePlayerLine {
+  playerId: string;
+  name: string;
+  position: string;
+  starter: boolean;
+  // Empty when the player did not play
+  stats: string[];
+  didNotPlay?: string;
+}
+
+// One stat table for a team, e.g. "batting" or "passing"; basketball and hockey
+// skaters have a single unnamed group
+export interface BoxScoreStatGroup {
+  name: string;
+  labels: string[];
+  players: BoxScorePlayerLine[];
+  totals: string[];
+}
+
+export interface BoxScore {
+  espnGameId: string;
+  league: string;
+  sport: Sport;
+  status: string;
+  gameDate: string;
+  // Column headers for periodScores, e.g. ["Q1", "Q2", "Q3", "Q4", "OT"]
+  periods: string[];
+  // Away team first, matching the "Away @ Home" convention
+  teams: BoxScoreTeam[];
+  playerStats: Array<{
+    teamAbbreviation: string;
+    groups: BoxScoreStatGroup[];
+  }>;
+}
+
 // Supported leagues
 export const LEAGUES = [
   { id: "nba", name: "NBA", sport: "basketball" },
@@ -41,53 +281,31 @@ export const LEAGUES = [
   { id: "nfl", name: "NFL", sport: "football" },
   { id: "nhl", name: "NHL", sport: "hockey" },
   { id: "mls", name: "MLS", sport: "soccer" },
+  { id: "wnba", name: "WNBA", sport: "basketball" },
+  { id: "ncaam", name: "NCAA Men's Basketball", sport: "basketball" },
+  { id: "ncaaw", name: "NCAA Women's Basketball", sport: "basketball" },
+  { id: "ncaaf", name: "College Football", sport: "football" },
+  { id: "epl", name: "Premier League", sport: "soccer" },
+  { id: "laliga", name: "La Liga", sport: "soccer" },
+  { id: "bundesliga", name: "Bundesliga", sport: "soccer" },
+  { id: "seriea", name: "Serie A", sport: "soccer" },
+  { id: "ligue1", name: "Ligue 1", sport: "soccer" },
+  { id: "ucl", name: "Champions League", sport: "soccer" },
 ] as const;
 
 export type LeagueId = typeof LEAGUES[number]["id"];
 
-// Popular teams for autocomplete suggestions
-export const POPULAR_TEAMS = [
-  // NBA
-  { name: "Los Angeles Lakers", league: "nba" },
-  { name: "Golden State Warriors", league: "nba" },
-  { name: "Boston Celtics", league: "nba" },
-  { name: "Miami Heat", league: "nba" },
-  { name: "Chicago Bulls", league: "nba" },
-  { name: "New York Knicks", league: "nba" },
-  { name: "Brooklyn Nets", league: "nba" },
-  { name: "Philadelphia 76ers", league: "nba" },
-  { name: "Phoenix Suns", league: "nba" },
-  { name: "Dallas Mavericks", league: "nba" },
-  // MLB
-  { name: "New York Yankees", league: "mlb" },
-  { name: "Los Angeles Dodgers", league: "mlb" },
-  { name: "Boston Red Sox", league: "mlb" },
-  { name: "Chicago Cubs", league: "mlb" },
-  { name: "San Francisco Giants", league: "mlb" },
-  { name: "Houston Astros", league: "mlb" },
-  { name: "Atlanta Braves", league: "mlb" },
-  { name: "Philadelphia Phillies", league: "mlb" },
-  // NFL
-  { name: "Dallas Cowboys", league: "nfl" },
-  { name: "New England Patriots", league: "nfl" },
-  { name: "Green Bay Packers", league: "nfl" },
-  { name: "Kansas City Chiefs", league: "nfl" },
-  { name: "San Francisco 49ers", league: "nfl" },
-  { name: "Philadelphia Eagles", league: "nfl" },
-  { name: "Buffalo Bills", league: "nfl" },
-  { name: "Miami Dolphins", league: "nfl" },
-  // NHL
-  { name: "Toronto Maple Leafs", league: "nhl" },
-  { name: "Montreal Canadiens", league: "nhl" },
-  { name: "Boston Bruins", league: "nhl" },
-  { name: "New York Rangers", league: "nhl" },
-  { name: "Chicago Blackhawks", league: "nhl" },
-  { name: "Pittsburgh Penguins", league: "nhl" },
-  { name: "Vegas Golden Knights", league: "nhl" },
-  // MLS
-  { name: "LA Galaxy", league: "mls" },
-  { name: "Inter Miami", league: "mls" },
-  { name: "Atlanta United", league: "mls" },
-  { name: "Seattle Sounders", league: "mls" },
-  { name: "LAFC", league: "mls" },
-] as const;
+// Popular teams for autocomplete suggestions, by registry ID (see teams.ts)
+const POPULAR_TEAM_IDS = [
+  "nba-lal", "nba-gsw", "nba-bos", "nba-mia", "nba-chi", "nba-nyk", "nba-bkn", "nba-phi", "nba-phx", "nba-dal",
+  "mlb-nyy", "mlb-lad", "mlb-bos", "mlb-chc", "mlb-sf", "mlb-hou", "mlb-atl", "mlb-phi",
+  "nfl-dal", "nfl-ne", "nfl-gb", "nfl-kc", "nfl-sf", "nfl-phi", "nfl-buf", "nfl-mia",
+  "nhl-tor", "nhl-mtl", "nhl-bos", "nhl-nyr", "nhl-chi", "nhl-pit", "nhl-vgk",
+  "mls-la", "mls-mia", "mls-atl", "mls-sea", "mls-lafc",
+  "epl-arsenal", "epl-liverpool", "epl-man-city", "laliga-real-madrid", "laliga-barcelona",
+  "wnba-lva", "wnba-nyl", "wnba-ind", "wnba-min",
+];
+
+export const POPULAR_TEAMS = TEAMS
+  .filter((team) => POPULAR_TEAM_IDS.includes(team.id))
+  .map((team) => ({ name: team.name, league: team.league }));
@@ -0,0 +1,242 @@
+// Team registry lookups: every franchise by name, nickname, alias and code, names
+// shared across leagues, renames by season and fuzzy resolution of typed names.
+
+import { describe, expect, it } from "vitest";
+import {
+  TEAMS,
+  confidentTeamMatch,
+  findTeam,
+  findTeamsInText,
+  normalizeTeamText,
+  resolveTeamName,
+  seasonForDate,
+  teamIdentity,
+  type Team,
+} from "./teams";
+
+// A season in the team's current era - the registry's newest teams start in 2026
+function currentSeason(team: Team): number {
+  return Math.max(team.from ?? 2024, 2024);
+}
+
+const ids = (teams: Array<{ id?: string; teamId?: string }>) => teams.map((t) => t.id ?? t.teamId).sort();
+
+describe("every franchise", () => {
+  it.each(TEAMS.map((team) => [team.id, team] as const))("%s is found by its names and codes", (_id, team) => {
+    const season = currentSeason(team);
+    const identity = teamIdentity(team, season);
+
+    expect(findTeam(team.league, team.name, season)).toBe(team);
+    expect(findTeam(team.league, team.nickname, season)).toBe(team);
+    if (identity.espnAbbr) {
+      expect(findTeam(team.league, identity.espnAbbr, season)).toBe(team);
+      expect(findTeam(team.league, identity.leagueAbbr, season)).toBe(team);
+    }
+    for (const alias of team.aliases || []) {
+      expect(findTeam(team.league, alias, season)).toBe(team);
+    }
+
+    expect(findTeamsInText(team.name)).toEqual([team]);
+    expect(resolveTeamName(team.name).find((c) => c.teamId === team.id)?.confidence).toBe(100);
+  });
+});
+
+describe("findTeamsInText", () => {
+  it.each([
+    ["Rangers", ["mlb-tex", "nhl-nyr"]],
+    ["Cardinals", ["mlb-stl", "nfl-ari"]],
+    ["Giants", ["mlb-sf", "nfl-nyg"]],
+    ["Jets", ["nfl-nyj", "nhl-wpg"]],
+    ["Kings", ["nba-sac", "nhl-lak"]],
+    ["Panthers", ["nfl-car", "nhl-fla"]],
+    ["Wolves", ["epl-wolves", "nba-min"]],
+    ["Bucs", ["mlb-pit", "nfl-tb"]],
+  ])("%s is ambiguous across leagues", (text, expected) => {
+    expect(ids(findTeamsInText(text))).toEqual(expected);
+  });
+
+  it.each([
+    ["Texas Rangers", ["mlb-tex"]],
+    ["New York Rangers", ["nhl-nyr"]],
+    ["Arizona Cardinals", ["nfl-ari"]],
+    ["Winnipeg Jets", ["nhl-wpg"]],
+    // A name inside a longer match belongs to the longer one
+    ["Detroit Red Wings", ["nhl-det"]],
+    ["Red Wings", ["nhl-det"]],
+    ["Chicago Fire", ["mls-chi"]],
+    ["Inter Miami", ["mls-mia"]],
+    ["Inter Milan", ["seriea-inter"]],
+    ["Lakers vs Celtics", ["nba-bos", "nba-lal"]],
+  ])("%s names only %j", (text, expected) => {
+    expect(ids(findTeamsInText(text))).toEqual(expected);
+  });
+
+  it.each([
+    ["Sixers", "nba-phi"],
+    ["Cavs", "nba-cle"],
+    ["Habs", "nhl-mtl"],
+    ["Niners", "nfl-sf"],
+    ["BoSox", "mlb-bos"],
+    ["Man Utd", "epl-man-united"],
+    ["Trail Blazers", "nba-por"],
+    ["St. Louis Cardinals", "mlb-stl"],
+    ["atletico madrid", "laliga-atletico-madrid"],
+  ])("%s finds %s through its alias or spelling", (text, id) => {
+    expect(ids(findTeamsInText(text))).toEqual([id]);
+  });
+
+  it("leaves abbreviations and unknown names alone", () => {
+    expect(findTeamsInText("LA")).toEqual([]);
+    expect(findTeamsInText("NY")).toEqual([]);
+    expect(findTeamsInText("Duke")).toEqual([]);
+    expect(findTeamsInText("")).toEqual([]);
+  });
+});
+
+describe("findTeam codes", () => {
+  it.each([
+    ["nba", "GS", "nba-gsw"],
+    ["nba", "GSW", "nba-gsw"],
+    ["nba", "NY", "nba-nyk"],
+    ["nba", "NYK", "nba-nyk"],
+    ["nba", "UTAH", "nba-uta"],
+    ["nba", "UTA", "nba-uta"],
+    ["nhl", "NJ", "nhl-njd"],
+    ["nhl", "NJD", "nhl-njd"],
+    ["wnba", "NY", "wnba-nyl"],
+    ["wnba", "NYL", "wnba-nyl"],
+    ["mlb", "AZ", "mlb-ari"],
+    ["mlb", "ARI", "mlb-ari"],
+  ])("%s %s is %s", (league, code, id) => {
+    expect(findTeam(league, code, 2024)?.id).toBe(id);
+  });
+
+  it("keeps codes within their league", () => {
+    expect(findTeam("nba", "NJD")).toBeUndefined();
+    expect(findTeam("nfl", "Rangers")).toBeUndefined();
+  });
+});
+
+describe("renames and relocations", () => {
+  it.each([
+    ["mlb-cle", 2021, "Cleveland Indians"],
+    ["mlb-cle", 2022, "Cleveland Guardians"],
+    ["nfl-wsh", 2019, "Washington Redskins"],
+    ["nfl-wsh", 2020, "Washington Football Team"],
+    ["nfl-wsh", 2021, "Washington Football Team"],
+    ["nfl-wsh", 2022, "Washington Commanders"],
+    ["nhl-uta", 2023, "Arizona Coyotes"],
+    ["nhl-uta", 2024, "Utah Hockey Club"],
+    ["nhl-uta", 2025, "Utah Mammoth"],
+    ["nba-nop", 2010, "New Orleans Hornets"],
+    ["nba-nop", 2024, "New Orleans Pelicans"],
+  ])("%s in %i is the %s", (id, season, name) => {
+    const team = TEAMS.find((t) => t.id === id)!;
+    expect(teamIdentity(team, season).name).toBe(name);
+  });
+
+  it("finds old names in their own seasons and without a season", () => {
+    expect(findTeam("mlb", "Indians", 2019)?.id).toBe("mlb-cle");
+    expect(findTeam("mlb", "Indians")?.id).toBe("mlb-cle");
+    expect(findTeam("nfl", "Redskins", 2015)?.id).toBe("nfl-wsh");
+    expect(findTeam("nfl", "Football Team", 2021)?.id).toBe("nfl-wsh");
+    expect(findTeam("nhl", "Coyotes", 2022)?.id).toBe("nhl-uta");
+    expect(findTeam("nhl", "Hockey Club", 2024)?.id).toBe("nhl-uta");
+  });
+
+  it("gives relocated teams the codes of their era", () => {
+    const utah = TEAMS.find((t) => t.id === "nhl-uta")!;
+    expect(teamIdentity(utah, 2023)).toMatchObject({ espnAbbr: "ARI", leagueAbbr: "ARI" });
+    expect(teamIdentity(utah, 2025)).toMatchObject({ espnAbbr: "UTAH", leagueAbbr: "UTA" });
+
+    // A rename in place keeps the current codes
+    const cleveland = TEAMS.find((t) => t.id === "mlb-cle")!;
+    expect(teamIdentity(cleveland, 2021)).toMatchObject({ espnAbbr: "CLE", mlbSlug: "indians" });
+
+    // NBA.com's NOH for the Hornets, NOP for the Pelicans
+    expect(findTeam("nba", "NO", 2010)?.id).toBe("nba-nop");
+    expect(teamIdentity(TEAMS.find((t) => t.id === "nba-nop")!, 2010).leagueAbbr).toBe("NOH");
+  });
+});
+
+describe("seasonForDate", () => {
+  it.each([
+    ["nba", "2024-01-10", 2023],
+    ["nba", "2024-10-22", 2024],
+    ["nhl", "2024-06-20", 2023],
+    ["epl", "2024-08-17", 2024],
+    ["mlb", "2024-03-28", 2024],
+    ["wnba", "2024-06-11", 2024],
+    ["mls", "2024-02-21", 2024],
+  ])("%s on %s is the %i season", (league, date, season) => {
+    expect(seasonForDate(league, date)).toBe(season);
+  });
+});
+
+describe("normalizeTeamText", () => {
+  it.each([
+    ["St. Louis", "st louis"],
+    ["Atlético Madrid", "atletico madrid"],
+    ["A's", "as"],
+    ["  Trail-Blazers ", "trail blazers"],
+  ])("%s -> %s", (text, expected) => {
+    expect(normalizeTeamText(text)).toBe(expected);
+  });
+});
+
+describe("resolveTeamName", () => {
+  it.each([
+    ["Celitcs", "nba-bos", "Celtics"],
+    ["Knicsk", "nba-nyk", "Knicks"],
+    ["Warriros", "nba-gsw", "Warriors"],
+    ["Lakres", "nba-lal", "Lakers"],
+    ["Yankes", "mlb-nyy", "Yankees"],
+    ["Bruns", "nhl-bos", "Bruins"],
+    ["the celitcs", "nba-bos", "Celtics"],
+    ["Boston Celitcs", "nba-bos", "Boston Celtics"],
+  ])("%s is confidently %s", (text, id, matchedName) => {
+    const match = confidentTeamMatch(resolveTeamName(text));
+    expect(match).toMatchObject({ teamId: id, matchedName });
+    expect(match!.confidence).toBeLessThan(100);
+  });
+
+  it.each([
+    ["Kngs", ["nba-sac", "nhl-lak"]],
+    ["Rangres", ["mlb-tex", "nhl-nyr"]],
+  ])("%s is too close to call between %j", (text, expected) => {
+    const candidates = resolveTeamName(text);
+    expect(confidentTeamMatch(candidates)).toBeNull();
+    expect(ids(candidates.slice(0, 2))).toEqual(expected);
+  });
+
+  it("scores exact names and aliases at 100", () => {
+    expect(resolveTeamName("Sixers")[0]).toMatchObject({ teamId: "nba-phi", name: "Philadelphia 76ers", confidence: 100 });
+    expect(confidentTeamMatch(resolveTeamName("Habs"))?.teamId).toBe("nhl-mtl");
+  });
+
+  it("never confidently picks one of two exact matches", () => {
+    expect(confidentTeamMatch(resolveTeamName("Wolves"))).toBeNull();
+  });
+
+  it("leaves place names and unrelated words alone", () => {
+    expect(resolveTeamName("Texas")).toEqual([]);
+    expect(resolveTeamName("Boston")).toEqual([]);
+    expect(resolveTeamName("Duke")).toEqual([]);
+    expect(resolveTeamName("")).toEqual([]);
+    // College names that only resemble a pro team's
+    expect(resolveTeamName("Texas A&M")).toEqual([]);
+    expect(resolveTeamName("Rutgers")).toEqual([]);
+    expect(resolveTeamName("Penn State")).toEqual([]);
+  });
+
+  it("only matches short names exactly", () => {
+    expect(resolveTeamName("Avz")).toEqual([]);
+  });
+
+  it("returns one candidate per team, best first", () => {
+    const candidates = resolveTeamName("Cardnals");
+    expect(new Set(candidates.map((c) => c.teamId)).size).toBe(candidates.length);
+    expect(candidates.map((c) => c.confidence)).toEqual([...candidates.map((c) => c.confidence)].sort((a, b) => b - a));
+    expect(ids(candidates.slice(0, 2))).toEqual(["mlb-stl", "nfl-ari"]);
+  });
+});
@@ -0,0 +1,602 @@
+import type { LeagueId, TeamCandidate } from "./schema";
+
+// Canonical team registry - every team the app knows by name, with the codes each
+// site uses for it. League detection, team matching and the link providers' URL
+// builders all read from here.
+//
+// Seasons are numbered by the year they start in, so the NBA's 2024-25 season is 2024
+// (see seasonForDate). Renames and relocations are kept as history entries covering
+// the seasons they were used, e.g. the Cleveland Indians through 2021.
+
+export interface TeamIdentity {
+  // Full display name as ESPN shows it, e.g. "Los Angeles Lakers"
+  name: string;
+  city: string;
+  // What the team is usually called on its own, e.g. "Lakers" or "Man City"
+  nickname: string;
+  // Other names users search for the team by
+  aliases?: string[];
+  espnAbbr?: string;
+  // The league's own site code (NBA/WNBA tricode, NHL abbrev, MLS club code); defaults to espnAbbr
+  leagueAbbr?: string;
+  // Sports-Reference team code; defaults to leagueAbbr
+  sportsReferenceCode?: string;
+  // MLB.com gameday slug; defaults to the slugified nickname
+  mlbSlug?: string;
+  // First and last seasons under this identity, inclusive; open-ended when omitted
+  from?: number;
+  to?: number;
+}
+
+export interface Team extends TeamIdentity {
+  // Stable registry ID, e.g. "nba-lal"
+  id: string;
+  league: LeagueId;
+  // Earlier names and homes of the franchise, newest first
+  history?: TeamIdentity[];
+}
+
+// A team as it was in one season, with every code filled in
+export interface ResolvedTeamIdentity extends TeamIdentity {
+  aliases: string[];
+  espnAbbr: string;
+  leagueAbbr: string;
+  sportsReferenceCode: string;
+  mlbSlug: string;
+}
+
+export const TEAMS: Team[] = [
+  // NBA
+  { id: "nba-atl", league: "nba", name: "Atlanta Hawks", city: "Atlanta", nickname: "Hawks", espnAbbr: "ATL" },
+  { id: "nba-bos", league: "nba", name: "Boston Celtics", city: "Boston", nickname: "Celtics", espnAbbr: "BOS" },
+  {
+    id: "nba-bkn", league: "nba", name: "Brooklyn Nets", city: "Brooklyn", nickname: "Nets", espnAbbr: "BKN", sportsReferenceCode: "BRK", from: 2012,
+    history: [{ name: "New Jersey Nets", city: "New Jersey", nickname: "Nets", espnAbbr: "NJ", leagueAbbr: "NJN", to: 2011 }],
+  },
+  {
+    id: "nba-cha", league: "nba", name: "Charlotte Hornets", city: "Charlotte", nickname: "Hornets", espnAbbr: "CHA", sportsReferenceCode: "CHO", from: 2014,
+    history: [{ name: "Charlotte Bobcats", city: "Charlotte", nickname: "Bobcats", espnAbbr: "CHA", sportsReferenceCode: "CHA", from: 2004, to: 2013 }],
+  },
+  { id: "nba-chi", league: "nba", name: "Chicago Bulls", city: "Chicago", nickname: "Bulls", espnAbbr: "CHI" },
+  { id: "nba-cle", league: "nba", name: "Cleveland Cavaliers", city: "Cleveland", nickname: "Cavaliers", aliases: ["Cavs"], espnAbbr: "CLE" },
+  { id: "nba-dal", league: "nba", name: "Dallas Mavericks", city: "Dallas", nickname: "Mavericks", aliases: ["Mavs"], espnAbbr: "DAL" },
+  { id: "nba-den", league: "nba", name: "Denver Nuggets", city: "Denver", nickname: "Nuggets", aliases: ["Nugs"], espnAbbr: "DEN" },
+  { id: "nba-det", league: "nba", name: "Detroit Pistons", city: "Detroit", nickname: "Pistons", espnAbbr: "DET" },
+  { id: "nba-gsw", league: "nba", name: "Golden State Warriors", city: "Golden State", nickname: "Warriors", aliases: ["Dubs"], espnAbbr: "GS", leagueAbbr: "GSW" },
+  { id: "nba-hou", league: "nba", name: "Houston Rockets", city: "Houston", nickname: "Rockets", espnAbbr: "HOU" },
+  { id: "nba-ind", league: "nba", name: "Indiana Pacers", city: "Indiana", nickname: "Pacers", espnAbbr: "IND" },
+  {
+    id: "nba-lac", league: "nba", name: "LA Clippers", city: "Los Angeles", nickname: "Clippers", aliases: ["Clips"], espnAbbr: "LAC", from: 2015,
+    history: [{ name: "Los Angeles Clippers", city: "Los Angeles", nickname: "Clippers", to: 2014 }],
+  },
+  { id: "nba-lal", league: "nba", name: "Los Angeles Lakers", city: "Los Angeles", nickname: "Lakers", espnAbbr: "LAL" },
+  {
+    id: "nba-mem", league: "nba", name: "Memphis Grizzlies", city: "Memphis", nickname: "Grizzlies", aliases: ["Grizz"], espnAbbr: "MEM", from: 2001,
+    history: [{ name: "Vancouver Grizzlies", city: "Vancouver", nickname: "Grizzlies", espnAbbr: "VAN", to: 2000 }],
+  },
+  { id: "nba-mia", league: "nba", name: "Miami Heat", city: "Miami", nickname: "Heat", espnAbbr: "MIA" },
+  { id: "nba-mil", league: "nba", name: "Milwaukee Bucks", city: "Milwaukee", nickname: "Bucks", espnAbbr: "MIL" },
+  { id: "nba-min", league: "nba", name: "Minnesota Timberwolves", city: "Minnesota", nickname: "Timberwolves", aliases: ["Wolves", "T-Wolves"], espnAbbr: "MIN" },
+  {
+    id: "nba-nop", league: "nba", name: "New Orleans Pelicans", city: "New Orleans", nickname: "Pelicans", aliases: ["Pels"], espnAbbr: "NO", leagueAbbr: "NOP", from: 2013,
+    history: [{ name: "New Orleans Hornets", city: "New Orleans", nickname: "Hornets", espnAbbr: "NO", leagueAbbr: "NOH", from: 2002, to: 2012 }],
+  },
+  { id: "nba-nyk", league: "nba", name: "New York Knicks", city: "New York", nickname: "Knicks", espnAbbr: "NY", leagueAbbr: "NYK" },
+  {
+    id: "nba-okc", league: "nba", name: "Oklahoma City Thunder", city: "Oklahoma City", nickname: "Thunder", espnAbbr: "OKC", from: 2008,
+    history: [{ name: "Seattle SuperSonics", city: "Seattle", nickname: "SuperSonics", aliases: ["Sonics"], espnAbbr: "SEA", to: 2007 }],
+  },
+  { id: "nba-orl", league: "nba", name: "Orlando Magic", city: "Orlando", nickname: "Magic", espnAbbr: "ORL" },
+  { id: "nba-phi", league: "nba", name: "Philadelphia 76ers", city: "Philadelphia", nickname: "76ers", aliases: ["Sixers"], espnAbbr: "PHI" },
+  { id: "nba-phx", league: "nba", name: "Phoenix Suns", city: "Phoenix", nickname: "Suns", espnAbbr: "PHX", sportsReferenceCode: "PHO" },
+  { id: "nba-por", league: "nba", name: "Portland Trail Blazers", city: "Portland", nickname: "Trail Blazers", aliases: ["Blazers"], espnAbbr: "POR" },
+  { id: "nba-sac", league: "nba", name: "Sacramento Kings", city: "Sacramento", nickname: "Kings", espnAbbr: "SAC" },
+  { id: "nba-sas", league: "nba", name: "San Antonio Spurs", city: "San Antonio", nickname: "Spurs", espnAbbr: "SA", leagueAbbr: "SAS" },
+  { id: "nba-tor", league: "nba", name: "Toronto Raptors", city: "Toronto", nickname: "Raptors", aliases: ["Raps"], espnAbbr: "TOR" },
+  { id: "nba-uta", league: "nba", name: "Utah Jazz", city: "Utah", nickname: "Jazz", espnAbbr: "UTAH", leagueAbbr: "UTA" },
+  { id: "nba-was", league: "nba", name: "Washington Wizards", city: "Washington", nickname: "Wizards", aliases: ["Wiz"], espnAbbr: "WSH", leagueAbbr: "WAS" },
+
+  // MLB
+  { id: "mlb-ari", league: "mlb", name: "Arizona Diamondbacks", city: "Arizona", nickname: "Diamondbacks", aliases: ["D-backs", "Dbacks"], espnAbbr: "ARI", leagueAbbr: "AZ", sportsReferenceCode: "ARI", mlbSlug: "d-backs" },
+  {
+    id: "mlb-ath", league: "mlb", name: "Athletics", city: "Sacramento", nickname: "Athletics", aliases: ["A's"], espnAbbr: "ATH", from: 2025,
+    history: [{ name: "Oakland Athletics", city: "Oakland", nickname: "Athletics", aliases: ["A's"], espnAbbr: "OAK", to: 2024 }],
+  },
+  { id: "mlb-atl", league: "mlb", name: "Atlanta Braves", city: "Atlanta", nickname: "Braves", espnAbbr: "ATL" },
+  { id: "mlb-bal", league: "mlb", name: "Baltimore Orioles", city: "Baltimore", nickname: "Orioles", aliases: ["O's"], espnAbbr: "BAL" },
+  { id: "mlb-bos", league: "mlb", name: "Boston Red Sox", city: "Boston", nickname: "Red Sox", aliases: ["BoSox"], espnAbbr: "BOS" },
+  { id: "mlb-chc", league: "mlb", name: "Chicago Cubs", city: "Chicago", nickname: "Cubs", aliases: ["Cubbies"], espnAbbr: "CHC", sportsReferenceCode: "CHN" },
+  { id: "mlb-chw", league: "mlb", name: "Chicago White Sox", city: "Chicago", nickname: "White Sox", aliases: ["ChiSox"], espnAbbr: "CHW", leagueAbbr: "CWS", sportsReferenceCode: "CHA" },
+  { id: "mlb-cin", league: "mlb", name: "Cincinnati Reds", city: "Cincinnati", nickname: "Reds", espnAbbr: "CIN" },
+  {
+    id: "mlb-cle", league: "mlb", name: "Cleveland Guardians", city: "Cleveland", nickname: "Guardians", espnAbbr: "CLE", from: 2022,
+    history: [{ name: "Cleveland Indians", city: "Cleveland", nickname: "Indians", to: 2021 }],
+  },
+  { id: "mlb-col", league: "mlb", name: "Colorado Rockies", city: "Colorado", nickname: "Rockies", espnAbbr: "COL" },
+  { id: "mlb-det", league: "mlb", name: "Detroit Tigers", city: "Detroit", nickname: "Tigers", espnAbbr: "DET" },
+  { id: "mlb-hou", league: "mlb", name: "Houston Astros", city: "Houston", nickname: "Astros", espnAbbr: "HOU" },
+  { id: "mlb-kc", league: "mlb", name: "Kansas City Royals", city: "Kansas City", nickname: "Royals", espnAbbr: "KC", sportsReferenceCode: "KCA" },
+  {
+    id: "mlb-laa", league: "mlb", name: "Los Angeles Angels", city: "Los Angeles", nickname: "Angels", aliases: ["Halos"], espnAbbr: "LAA", sportsReferenceCode: "ANA", from: 2016,
+    history: [
+      { name: "Los Angeles Angels of Anaheim", city: "Los Angeles", nickname: "Angels", from: 2005, to: 2015 },
+      { name: "Anaheim Angels", city: "Anaheim", nickname: "Angels", espnAbbr: "ANA", to: 2004 },
+    ],
+  },
+  { id: "mlb-lad", league: "mlb", name: "Los Angeles Dodgers", city: "Los Angeles", nickname: "Dodgers", espnAbbr: "LAD", sportsReferenceCode: "LAN" },
+  {
+    id: "mlb-mia", league: "mlb", name: "Miami Marlins", city: "Miami", nickname: "Marlins", espnAbbr: "MIA", from: 2012,
+    history: [{ name: "Florida Marlins", city: "Florida", nickname: "Marlins", espnAbbr: "FLA", to: 2011 }],
+  },
+  { id: "mlb-mil", league: "mlb", name: "Milwaukee Brewers", city: "Milwaukee", nickname: "Brewers", espnAbbr: "MIL" },
+  { id: "mlb-min", league: "mlb", name: "Minnesota Twins", city: "Minnesota", nickname: "Twins", espnAbbr: "MIN" },
+  { id: "mlb-nym", league: "mlb", name: "New York Mets", city: "New York", nickname: "Mets", espnAbbr: "NYM", sportsReferenceCode: "NYN" },
+  { id: "mlb-nyy", league: "mlb", name: "New York Yankees", city: "New York", nickname: "Yankees", aliases: ["Yanks"], espnAbbr: "NYY", sportsReferenceCode: "NYA" },
+  { id: "mlb-phi", league: "mlb", name: "Philadelphia Phillies", city: "Philadelphia", nickname: "Phillies", aliases: ["Phils"], espnAbbr: "PHI" },
+  { id: "mlb-pit", league: "mlb", name: "Pittsburgh Pirates", city: "Pittsburgh", nickname: "Pirates", aliases: ["Bucs"], espnAbbr: "PIT" },
+  { id: "mlb-sd", league: "mlb", name: "San Diego Padres", city: "San Diego", nickname: "Padres", aliases: ["Friars"], espnAbbr: "SD", sportsReferenceCode: "SDN" },
+  { id: "mlb-sf", league: "mlb", name: "San Francisco Giants", city: "San Francisco", nickname: "Giants", espnAbbr: "SF", sportsReferenceCode: "SFN" },
+  { id: "mlb-sea", league: "mlb", name: "Seattle Mariners", city: "Seattle", nickname: "Mariners", espnAbbr: "SEA" },
+  { id: "mlb-stl", league: "mlb", name: "St. Louis Cardinals", city: "St. Louis", nickname: "Cardinals", aliases: ["Cards"], espnAbbr: "STL", sportsReferenceCode: "SLN" },
+  {
+    id: "mlb-tb", league: "mlb", name: "Tampa Bay Rays", city: "Tampa Bay", nickname: "Rays", espnAbbr: "TB", sportsReferenceCode: "TBA", from: 2008,
+    history: [{ name: "Tampa Bay Devil Rays", city: "Tampa Bay", nickname: "Devil Rays", sportsReferenceCode: "TBD", to: 2007 }],
+  },
+  { id: "mlb-tex", league: "mlb", name: "Texas Rangers", city: "Texas", nickname: "Rangers", espnAbbr: "TEX" },
+  { id: "mlb-tor", league: "mlb", name: "Toronto Blue Jays", city: "Toronto", nickname: "Blue Jays", aliases: ["Jays"], espnAbbr: "TOR" },
+  {
+    id: "mlb-wsh", league: "mlb", name: "Washington Nationals", city: "Washington", nickname: "Nationals", aliases: ["Nats"], espnAbbr: "WSH", sportsReferenceCode: "WAS", from: 2005,
+    history: [{ name: "Montreal Expos", city: "Montreal", nickname: "Expos", espnAbbr: "MON", to: 2004 }],
+  },
+
+  // NFL - Pro-Football-Reference codes are lowercase and mostly unrelated to the league's
+  { id: "nfl-ari", league: "nfl", name: "Arizona Cardinals", city: "Arizona", nickname: "Cardinals", aliases: ["Cards"], espnAbbr: "ARI", sportsReferenceCode: "crd" },
+  { id: "nfl-atl", league: "nfl", name: "Atlanta Falcons", city: "Atlanta", nickname: "Falcons", espnAbbr: "ATL", sportsReferenceCode: "atl" },
+  { id: "nfl-bal", league: "nfl", name: "Baltimore Ravens", city: "Baltimore", nickname: "Ravens", espnAbbr: "BAL", sportsReferenceCode: "rav" },
+  { id: "nfl-buf", league: "nfl", name: "Buffalo Bills", city: "Buffalo", nickname: "Bills", espnAbbr: "BUF", sportsReferenceCode: "buf" },
+  { id: "nfl-car", league: "nfl", name: "Carolina Panthers", city: "Carolina", nickname: "Panthers", espnAbbr: "CAR", sportsReferenceCode: "car" },
+  { id: "nfl-chi", league: "nfl", name: "Chicago Bears", city: "Chicago", nickname: "Bears", espnAbbr: "CHI", sportsReferenceCode: "chi" },
+  { id: "nfl-cin", league: "nfl", name: "Cincinnati Bengals", city: "Cincinnati", nickname: "Bengals", espnAbbr: "CIN", sportsReferenceCode: "cin" },
+  { id: "nfl-cle", league: "nfl", name: "Cleveland Browns", city: "Cleveland", nickname: "Browns", espnAbbr: "CLE", sportsReferenceCode: "cle" },
+  { id: "nfl-dal", league: "nfl", name: "Dallas Cowboys", city: "Dallas", nickname: "Cowboys", espnAbbr: "DAL", sportsReferenceCode: "dal" },
+  { id: "nfl-den", league: "nfl", name: "Denver Broncos", city: "Denver", nickname: "Broncos", espnAbbr: "DEN", sportsReferenceCode: "den" },
+  { id: "nfl-det", league: "nfl", name: "Detroit Lions", city: "Detroit", nickname: "Lions", espnAbbr: "DET", sportsReferenceCode: "det" },
+  { id: "nfl-gb", league: "nfl", name: "Green Bay Packers", city: "Green Bay", nickname: "Packers", espnAbbr: "GB", sportsReferenceCode: "gnb" },
+  { id: "nfl-hou", league: "nfl", name: "Houston Texans", city: "Houston", nickname: "Texans", espnAbbr: "HOU", sportsReferenceCode: "htx" },
+  { id: "nfl-ind", league: "nfl", name: "Indianapolis Colts", city: "Indianapolis", nickname: "Colts", espnAbbr: "IND", sportsReferenceCode: "clt" },
+  { id: "nfl-jax", league: "nfl", name: "Jacksonville Jaguars", city: "Jacksonville", nickname: "Jaguars", aliases: ["Jags"], espnAbbr: "JAX", sportsReferenceCode: "jax" },
+  { id: "nfl-kc", league: "nfl", name: "Kansas City Chiefs", city: "Kansas City", nickname: "Chiefs", espnAbbr: "KC", sportsReferenceCode: "kan" },
+  {
+    id: "nfl-lv", league: "nfl", name: "Las Vegas Raiders", city: "Las Vegas", nickname: "Raiders", espnAbbr: "LV", sportsReferenceCode: "rai", from: 2020,
+    history: [{ name: "Oakland Raiders", city: "Oakland", nickname: "Raiders", espnAbbr: "OAK", sportsReferenceCode: "rai", to: 2019 }],
+  },
+  {
+    id: "nfl-lac", league: "nfl", name: "Los Angeles Chargers", city: "Los Angeles", nickname: "Chargers", espnAbbr: "LAC", sportsReferenceCode: "sdg", from: 2017,
+    history: [{ name: "San Diego Chargers", city: "San Diego", nickname: "Chargers", espnAbbr: "SD", sportsReferenceCode: "sdg", to: 2016 }],
+  },
+  {
+    id: "nfl-lar", league: "nfl", name: "Los Angeles Rams", city: "Los Angeles", nickname: "Rams", espnAbbr: "LAR", leagueAbbr: "LA", sportsReferenceCode: "ram", from: 2016,
+    history: [{ name: "St. Louis Rams", city: "St. Louis", nickname: "Rams", espnAbbr: "STL", leagueAbbr: "STL", sportsReferenceCode: "ram", from: 1995, to: 2015 }],
+  },
+  { id: "nfl-mia", league: "nfl", name: "Miami Dolphins", city: "Miami", nickname: "Dolphins", aliases: ["Fins"], espnAbbr: "MIA", sportsReferenceCode: "mia" },
+  { id: "nfl-min", league: "nfl", name: "Minnesota Vikings", city: "Minnesota", nickname: "Vikings", espnAbbr: "MIN", sportsReferenceCode: "min" },
+  { id: "nfl-ne", league: "nfl", name: "New England Patriots", city: "New England", nickname: "Patriots", aliases: ["Pats"], espnAbbr: "NE", sportsReferenceCode: "nwe" },
+  { id: "nfl-no", league: "nfl", name: "New Orleans Saints", city: "New Orleans", nickname: "Saints", espnAbbr: "NO", sportsReferenceCode: "nor" },
+  { id: "nfl-nyg", league: "nfl", name: "New York Giants", city: "New York", nickname: "Giants", aliases: ["G-Men"], espnAbbr: "NYG", sportsReferenceCode: "nyg" },
+  { id: "nfl-nyj", league: "nfl", name: "New York Jets", city: "New York", nickname: "Jets", espnAbbr: "NYJ", sportsReferenceCode: "nyj" },
+  { id: "nfl-phi", league: "nfl", name: "Philadelphia Eagles", city: "Philadelphia", nickname: "Eagles", espnAbbr: "PHI", sportsReferenceCode: "phi" },
+  { id: "nfl-pit", league: "nfl", name: "Pittsburgh Steelers", city: "Pittsburgh", nickname: "Steelers", espnAbbr: "PIT", sportsReferenceCode: "pit" },
+  { id: "nfl-sf", league: "nfl", name: "San Francisco 49ers", city: "San Francisco", nickname: "49ers", aliases: ["Niners"], espnAbbr: "SF", sportsReferenceCode: "sfo" },
+  { id: "nfl-sea", league: "nfl", name: "Seattle Seahawks", city: "Seattle", nickname: "Seahawks", espnAbbr: "SEA", sportsReferenceCode: "sea" },
+  { id: "nfl-tb", league: "nfl", name: "Tampa Bay Buccaneers", city: "Tampa Bay", nickname: "Buccaneers", aliases: ["Bucs"], espnAbbr: "TB", sportsReferenceCode: "tam" },
+  { id: "nfl-ten", league: "nfl", name: "Tennessee Titans", city: "Tennessee", nickname: "Titans", espnAbbr: "TEN", sportsReferenceCode: "oti" },
+  {
+    id: "nfl-wsh", league: "nfl", name: "Washington Commanders", city: "Washington", nickname: "Commanders", espnAbbr: "WSH", leagueAbbr: "WAS", sportsReferenceCode: "was", from: 2022,
+    history: [
+      { name: "Washington Football Team", city: "Washington", nickname: "Football Team", from: 2020, to: 2021 },
+      { name: "Washington Redskins", city: "Washington", nickname: "Redskins", to: 2019 },
+    ],
+  },
+
+  // NHL
+  { id: "nhl-ana", league: "nhl", name: "Anaheim Ducks", city: "Anaheim", nickname: "Ducks", espnAbbr: "ANA" },
+  { id: "nhl-bos", league: "nhl", name: "Boston Bruins", city: "Boston", nickname: "Bruins", espnAbbr: "BOS" },
+  { id: "nhl-buf", league: "nhl", name: "Buffalo Sabres", city: "Buffalo", nickname: "Sabres", espnAbbr: "BUF" },
+  { id: "nhl-cgy", league: "nhl", name: "Calgary Flames", city: "Calgary", nickname: "Flames", espnAbbr: "CGY" },
+  { id: "nhl-car", league: "nhl", name: "Carolina Hurricanes", city: "Carolina", nickname: "Hurricanes", aliases: ["Canes"], espnAbbr: "CAR" },
+  { id: "nhl-chi", league: "nhl", name: "Chicago Blackhawks", city: "Chicago", nickname: "Blackhawks", espnAbbr: "CHI" },
+  { id: "nhl-col", league: "nhl", name: "Colorado Avalanche", city: "Colorado", nickname: "Avalanche", aliases: ["Avs"], espnAbbr: "COL" },
+  { id: "nhl-cbj", league: "nhl", name: "Columbus Blue Jackets", city: "Columbus", nickname: "Blue Jackets", aliases: ["Jackets"], espnAbbr: "CBJ" },
+  { id: "nhl-dal", league: "nhl", name: "Dallas Stars", city: "Dallas", nickname: "Stars", espnAbbr: "DAL" },
+  { id: "nhl-det", league: "nhl", name: "Detroit Red Wings", city: "Detroit", nickname: "Red Wings", espnAbbr: "DET" },
+  { id: "nhl-edm", league: "nhl", name: "Edmonton Oilers", city: "Edmonton", nickname: "Oilers", espnAbbr: "EDM" },
+  { id: "nhl-fla", league: "nhl", name: "Florida Panthers", city: "Florida", nickname: "Panthers", espnAbbr: "FLA" },
+  { id: "nhl-lak", league: "nhl", name: "Los Angeles Kings", city: "Los Angeles", nickname: "Kings", espnAbbr: "LA", leagueAbbr: "LAK" },
+  { id: "nhl-min", league: "nhl", name: "Minnesota Wild", city: "Minnesota", nickname: "Wild", espnAbbr: "MIN" },
+  { id: "nhl-mtl", league: "nhl", name: "Montreal Canadiens", city: "Montreal", nickname: "Canadiens", aliases: ["Habs"], espnAbbr: "MTL" },
+  { id: "nhl-nsh", league: "nhl", name: "Nashville Predators", city: "Nashville", nickname: "Predators", aliases: ["Preds"], espnAbbr: "NSH" },
+  { id: "nhl-njd", league: "nhl", name: "New Jersey Devils", city: "New Jersey", nickname: "Devils", espnAbbr: "NJ", leagueAbbr: "NJD" },
+  { id: "nhl-nyi", league: "nhl", name: "New York Islanders", city: "New York", nickname: "Islanders", aliases: ["Isles"], espnAbbr: "NYI" },
+  { id: "nhl-nyr", league: "nhl", name: "New York Rangers", city: "New York", nickname: "Rangers", espnAbbr: "NYR" },
+  { id: "nhl-ott", league: "nhl", name: "Ottawa Senators", city: "Ottawa", nickname: "Senators", aliases: ["Sens"], espnAbbr: "OTT" },
+  { id: "nhl-phi", league: "nhl", name: "Philadelphia Flyers", city: "Philadelphia", nickname: "Flyers", espnAbbr: "PHI" },
+  { id: "nhl-pit", league: "nhl", name: "Pittsburgh Penguins", city: "Pittsburgh", nickname: "Penguins", aliases: ["Pens"], espnAbbr: "PIT" },
+  { id: "nhl-sjs", league: "nhl", name: "San Jose Sharks", city: "San Jose", nickname: "Sharks", espnAbbr: "SJ", leagueAbbr: "SJS" },
+  { id: "nhl-sea", league: "nhl", name: "Seattle Kraken", city: "Seattle", nickname: "Kraken", espnAbbr: "SEA", from: 2021 },
+  { id: "nhl-stl", league: "nhl", name: "St. Louis Blues", city: "St. Louis", nickname: "Blues", espnAbbr: "STL" },
+  { id: "nhl-tbl", league: "nhl", name: "Tampa Bay Lightning", city: "Tampa Bay", nickname: "Lightning", aliases: ["Bolts"], espnAbbr: "TB", leagueAbbr: "TBL" },
+  { id: "nhl-tor", league: "nhl", name: "Toronto Maple Leafs", city: "Toronto", nickname: "Maple Leafs", aliases: ["Leafs"], espnAbbr: "TOR" },
+  {
+    id: "nhl-uta", league: "nhl", name: "Utah Mammoth", city: "Utah", nickname: "Mammoth", espnAbbr: "UTAH", leagueAbbr: "UTA", from: 2025,
+    history: [
+      { name: "Utah Hockey Club", city: "Utah", nickname: "Hockey Club", from: 2024, to: 2024 },
+      { name: "Arizona Coyotes", city: "Arizona", nickname: "Coyotes", aliases: ["Yotes"], espnAbbr: "ARI", leagueAbbr: "ARI", to: 2023 },
+    ],
+  },
+  { id: "nhl-van", league: "nhl", name: "Vancouver Canucks", city: "Vancouver", nickname: "Canucks", aliases: ["Nucks"], espnAbbr: "VAN" },
+  { id: "nhl-vgk", league: "nhl", name: "Vegas Golden Knights", city: "Vegas", nickname: "Golden Knights", aliases: ["Knights"], espnAbbr: "VGK", sportsReferenceCode: "VEG", from: 2017 },
+  { id: "nhl-wsh", league: "nhl", name: "Washington Capitals", city: "Washington", nickname: "Capitals", aliases: ["Caps"], espnAbbr: "WSH" },
+  {
+    id: "nhl-wpg", league: "nhl", name: "Winnipeg Jets", city: "Winnipeg", nickname: "Jets", espnAbbr: "WPG", from: 2011,
+    history: [{ name: "Atlanta Thrashers", city: "Atlanta", nickname: "Thrashers", espnAbbr: "ATL", to: 2010 }],
+  },
+
+  // MLS - clubs go by their short name more than a nickname
+  { id: "mls-atl", league: "mls", name: "Atlanta United FC", city: "Atlanta", nickname: "Atlanta United", espnAbbr: "ATL" },
+  { id: "mls-atx", league: "mls", name: "Austin FC", city: "Austin", nickname: "Austin FC", espnAbbr: "ATX", from: 2021 },
+  { id: "mls-clt", league: "mls", name: "Charlotte FC", city: "Charlotte", nickname: "Charlotte FC", espnAbbr: "CLT", from: 2022 },
+  { id: "mls-chi", league: "mls", name: "Chicago Fire FC", city: "Chicago", nickname: "Chicago Fire", espnAbbr: "CHI" },
+  { id: "mls-cin", league: "mls", name: "FC Cincinnati", city: "Cincinnati", nickname: "FC Cincinnati", aliases: ["Cincinnati"], espnAbbr: "CIN", from: 2019 },
+  { id: "mls-col", league: "mls", name: "Colorado Rapids", city: "Colorado", nickname: "Rapids", espnAbbr: "COL" },
+  { id: "mls-clb", league: "mls", name: "Columbus Crew", city: "Columbus", nickname: "Crew", espnAbbr: "CLB" },
+  { id: "mls-dal", league: "mls", name: "FC Dallas", city: "Dallas", nickname: "FC Dallas", espnAbbr: "DAL" },
+  { id: "mls-dc", league: "mls", name: "D.C. United", city: "Washington", nickname: "DC United", espnAbbr: "DC" },
+  { id: "mls-hou", league: "mls", name: "Houston Dynamo FC", city: "Houston", nickname: "Dynamo", espnAbbr: "HOU" },
+  { id: "mls-mia", league: "mls", name: "Inter Miami CF", city: "Miami", nickname: "Inter Miami", espnAbbr: "MIA", from: 2020 },
+  { id: "mls-la", league: "mls", name: "LA Galaxy", city: "Los Angeles", nickname: "Galaxy", espnAbbr: "LA" },
+  { id: "mls-lafc", league: "mls", name: "LAFC", city: "Los Angeles", nickname: "LAFC", aliases: ["Los Angeles FC"], espnAbbr: "LAFC", from: 2018 },
+  { id: "mls-min", league: "mls", name: "Minnesota United FC", city: "Minnesota", nickname: "Minnesota United", espnAbbr: "MIN", from: 2017 },
+  {
+    id: "mls-mtl", league: "mls", name: "CF Montréal", city: "Montreal", nickname: "CF Montreal", espnAbbr: "MTL", from: 2021,
+    history: [{ name: "Montreal Impact", city: "Montreal", nickname: "Impact", to: 2020 }],
+  },
+  { id: "mls-nsh", league: "mls", name: "Nashville SC", city: "Nashville", nickname: "Nashville SC", espnAbbr: "NSH", from: 2020 },
+  { id: "mls-ne", league: "mls", name: "New England Revolution", city: "New England", nickname: "Revolution", espnAbbr: "NE" },
+  { id: "mls-rbny", league: "mls", name: "New York Red Bulls", city: "New York", nickname: "Red Bulls", espnAbbr: "NY", leagueAbbr: "RBNY" },
+  { id: "mls-nyc", league: "mls", name: "New York City FC", city: "New York", nickname: "NYCFC", espnAbbr: "NYC", from: 2015 },
+  { id: "mls-orl", league: "mls", name: "Orlando City SC", city: "Orlando", nickname: "Orlando City", espnAbbr: "ORL", from: 2015 },
+  { id: "mls-phi", league: "mls", name: "Philadelphia Union", city: "Philadelphia", nickname: "Union", espnAbbr: "PHI" },
+  { id: "mls-por", league: "mls", name: "Portland Timbers", city: "Portland", nickname: "Timbers", espnAbbr: "POR" },
+  { id: "mls-rsl", league: "mls", name: "Real Salt Lake", city: "Salt Lake City", nickname: "Real Salt Lake", aliases: ["RSL"], espnAbbr: "RSL" },
+  { id: "mls-sd", league: "mls", name: "San Diego FC", city: "San Diego", nickname: "San Diego FC", espnAbbr: "SD", from: 2025 },
+  { id: "mls-sj", league: "mls", name: "San Jose Earthquakes", city: "San Jose", nickname: "Earthquakes", espnAbbr: "SJ" },
+  { id: "mls-sea", league: "mls", name: "Seattle Sounders FC", city: "Seattle", nickname: "Sounders", espnAbbr: "SEA" },
+  {
+    id: "mls-skc", league: "mls", name: "Sporting Kansas City", city: "Kansas City", nickname: "Sporting KC", aliases: ["SKC"], espnAbbr: "SKC", from: 2011,
+    history: [{ name: "Kansas City Wizards", city: "Kansas City", nickname: "Wizards", espnAbbr: "KC", to: 2010 }],
+  },
+  { id: "mls-stl", league: "mls", name: "St. Louis City SC", city: "St. Louis", nickname: "St. Louis City", espnAbbr: "STL", from: 2023 },
+  { id: "mls-tor", league: "mls", name: "Toronto FC", city: "Toronto", nickname: "Toronto FC", espnAbbr: "TOR" },
+  { id: "mls-van", league: "mls", name: "Vancouver Whitecaps FC", city: "Vancouver", nickname: "Whitecaps", espnAbbr: "VAN" },
+
+  // Premier League
+  { id: "epl-arsenal", league: "epl", name: "Arsenal", city: "London", nickname: "Arsenal", aliases: ["Gunners"] },
+  { id: "epl-aston-villa", league: "epl", name: "Aston Villa", city: "Birmingham", nickname: "Aston Villa", aliases: ["Villa"] },
+  { id: "epl-bournemouth", league: "epl", name: "AFC Bournemouth", city: "Bournemouth", nickname: "Bournemouth", aliases: ["Cherries"] },
+  { id: "epl-brentford", league: "epl", name: "Brentford", city: "London", nickname: "Brentford", aliases: ["Bees"] },
+  { id: "epl-brighton", league: "epl", name: "Brighton & Hove Albion", city: "Brighton", nickname: "Brighton", aliases: ["Seagulls"] },
+  { id: "epl-burnley", league: "epl", name: "Burnley", city: "Burnley", nickname: "Burnley" },
+  { id: "epl-chelsea", league: "epl", name: "Chelsea", city: "London", nickname: "Chelsea" },
+  { id: "epl-crystal-palace", league: "epl", name: "Crystal Palace", city: "London", nickname: "Crystal Palace", aliases: ["Palace"] },
+  { id: "epl-everton", league: "epl", name: "Everton", city: "Liverpool", nickname: "Everton", aliases: ["Toffees"] },
+  { id: "epl-fulham", league: "epl", name: "Fulham", city: "London", nickname: "Fulham" },
+  { id: "epl-leeds", league: "epl", name: "Leeds United", city: "Leeds", nickname: "Leeds" },
+  { id: "epl-liverpool", league: "epl", name: "Liverpool", city: "Liverpool", nickname: "Liverpool" },
+  { id: "epl-man-city", league: "epl", name: "Manchester City", city: "Manchester", nickname: "Man City" },
+  { id: "epl-man-united", league: "epl", name: "Manchester United", city: "Manchester", nickname: "Man United", aliases: ["Man Utd", "Man U"] },
+  { id: "epl-newcastle", league: "epl", name: "Newcastle United", city: "Newcastle", nickname: "Newcastle", aliases: ["Magpies"] },
+  { id: "epl-nottingham-forest", league: "epl", name: "Nottingham Forest", city: "Nottingham", nickname: "Nottingham Forest", aliases: ["Forest"] },
+  { id: "epl-sunderland", league: "epl", name: "Sunderland", city: "Sunderland", nickname: "Sunderland" },
+  { id: "epl-tottenham", league: "epl", name: "Tottenham Hotspur", city: "London", nickname: "Tottenham" },
+  { id: "epl-west-ham", league: "epl", name: "West Ham United", city: "London", nickname: "West Ham", aliases: ["Hammers"] },
+  { id: "epl-wolves", league: "epl", name: "Wolverhampton Wanderers", city: "Wolverhampton", nickname: "Wolves", aliases: ["Wolverhampton"] },
+
+  // La Liga
+  { id: "laliga-real-madrid", league: "laliga", name: "Real Madrid", city: "Madrid", nickname: "Real Madrid" },
+  { id: "laliga-barcelona", league: "laliga", name: "Barcelona", city: "Barcelona", nickname: "Barcelona", aliases: ["FC Barcelona", "Barca"] },
+  { id: "laliga-atletico-madrid", league: "laliga", name: "Atlético Madrid", city: "Madrid", nickname: "Atletico Madrid", aliases: ["Atletico", "Atleti"] },
+  { id: "laliga-athletic-club", league: "laliga", name: "Athletic Club", city: "Bilbao", nickname: "Athletic Club", aliases: ["Athletic Bilbao"] },
+  { id: "laliga-real-sociedad", league: "laliga", name: "Real Sociedad", city: "San Sebastián", nickname: "Real Sociedad" },
+  { id: "laliga-real-betis", league: "laliga", name: "Real Betis", city: "Seville", nickname: "Real Betis", aliases: ["Betis"] },
+  { id: "laliga-villarreal", league: "laliga", name: "Villarreal", city: "Villarreal", nickname: "Villarreal" },
+  { id: "laliga-sevilla", league: "laliga", name: "Sevilla", city: "Seville", nickname: "Sevilla" },
+  { id: "laliga-valencia", league: "laliga", name: "Valencia", city: "Valencia", nickname: "Valencia" },
+  { id: "laliga-girona", league: "laliga", name: "Girona", city: "Girona", nickname: "Girona" },
+  { id: "laliga-osasuna", league: "laliga", name: "Osasuna", city: "Pamplona", nickname: "Osasuna" },
+  { id: "laliga-celta-vigo", league: "laliga", name: "Celta Vigo", city: "Vigo", nickname: "Celta Vigo", aliases: ["Celta"] },
+  { id: "laliga-getafe", league: "laliga", name: "Getafe", city: "Getafe", nickname: "Getafe" },
+  { id: "laliga-mallorca", league: "laliga", name: "Mallorca", city: "Palma", nickname: "Mallorca" },
+  { id: "laliga-rayo-vallecano", league: "laliga", name: "Rayo Vallecano", city: "Madrid", nickname: "Rayo Vallecano" },
+  { id: "laliga-espanyol", league: "laliga", name: "Espanyol", city: "Barcelona", nickname: "Espanyol" },
+  { id: "laliga-alaves", league: "laliga", name: "Alavés", city: "Vitoria-Gasteiz", nickname: "Alaves" },
+  { id: "laliga-levante", league: "laliga", name: "Levante", city: "Valencia", nickname: "Levante" },
+  { id: "laliga-elche", league: "laliga", name: "Elche", city: "Elche", nickname: "Elche" },
+  { id: "laliga-real-oviedo", league: "laliga", name: "Real Oviedo", city: "Oviedo", nickname: "Real Oviedo" },
+
+  // Bundesliga
+  { id: "bundesliga-bayern", league: "bundesliga", name: "Bayern Munich", city: "Munich", nickname: "Bayern", aliases: ["Bayern Munchen", "FC Bayern"] },
+  { id: "bundesliga-dortmund", league: "bundesliga", name: "Borussia Dortmund", city: "Dortmund", nickname: "Dortmund", aliases: ["BVB"] },
+  { id: "bundesliga-leverkusen", league: "bundesliga", name: "Bayer Leverkusen", city: "Leverkusen", nickname: "Leverkusen" },
+  { id: "bundesliga-leipzig", league: "bundesliga", name: "RB Leipzig", city: "Leipzig", nickname: "Leipzig" },
+  { id: "bundesliga-frankfurt", league: "bundesliga", name: "Eintracht Frankfurt", city: "Frankfurt", nickname: "Eintracht Frankfurt", aliases: ["Frankfurt"] },
+  { id: "bundesliga-stuttgart", league: "bundesliga", name: "VfB Stuttgart", city: "Stuttgart", nickname: "Stuttgart" },
+  { id: "bundesliga-wolfsburg", league: "bundesliga", name: "VfL Wolfsburg", city: "Wolfsburg", nickname: "Wolfsburg" },
+  { id: "bundesliga-gladbach", league: "bundesliga", name: "Borussia Mönchengladbach", city: "Mönchengladbach", nickname: "Gladbach", aliases: ["Monchengladbach"] },
+  { id: "bundesliga-freiburg", league: "bundesliga", name: "SC Freiburg", city: "Freiburg", nickname: "Freiburg" },
+  { id: "bundesliga-hoffenheim", league: "bundesliga", name: "TSG Hoffenheim", city: "Sinsheim", nickname: "Hoffenheim" },
+  { id: "bundesliga-union-berlin", league: "bundesliga", name: "1. FC Union Berlin", city: "Berlin", nickname: "Union Berlin" },
+  { id: "bundesliga-werder-bremen", league: "bundesliga", name: "Werder Bremen", city: "Bremen", nickname: "Werder Bremen", aliases: ["Bremen"] },
+  { id: "bundesliga-mainz", league: "bundesliga", name: "Mainz", city: "Mainz", nickname: "Mainz" },
+  { id: "bundesliga-augsburg", league: "bundesliga", name: "FC Augsburg", city: "Augsburg", nickname: "Augsburg" },
+  { id: "bundesliga-heidenheim", league: "bundesliga", name: "1. FC Heidenheim 1846", city: "Heidenheim", nickname: "Heidenheim" },
+  { id: "bundesliga-st-pauli", league: "bundesliga", name: "St. Pauli", city: "Hamburg", nickname: "St. Pauli" },
+  { id: "bundesliga-koln", league: "bundesliga", name: "1. FC Köln", city: "Cologne", nickname: "Köln", aliases: ["Cologne"] },
+  { id: "bundesliga-hamburg", league: "bundesliga", name: "Hamburg SV", city: "Hamburg", nickname: "Hamburg", aliases: ["HSV"] },
+
+  // Serie A
+  { id: "seriea-juventus", league: "seriea", name: "Juventus", city: "Turin", nickname: "Juventus", aliases: ["Juve"] },
+  { id: "seriea-inter", league: "seriea", name: "Internazionale", city: "Milan", nickname: "Inter", aliases: ["Inter Milan"] },
+  { id: "seriea-milan", league: "seriea", name: "AC Milan", city: "Milan", nickname: "AC Milan", aliases: ["Milan"] },
+  { id: "seriea-napoli", league: "seriea", name: "Napoli", city: "Naples", nickname: "Napoli" },
+  { id: "seriea-roma", league: "seriea", name: "AS Roma", city: "Rome", nickname: "AS Roma", aliases: ["Roma"] },
+  { id: "seriea-lazio", league: "seriea", name: "Lazio", city: "Rome", nickname: "Lazio" },
+  { id: "seriea-atalanta", league: "seriea", name: "Atalanta", city: "Bergamo", nickname: "Atalanta" },
+  { id: "seriea-fiorentina", league: "seriea", name: "Fiorentina", city: "Florence", nickname: "Fiorentina" },
+  { id: "seriea-bologna", league: "seriea", name: "Bologna", city: "Bologna", nickname: "Bologna" },
+  { id: "seriea-torino", league: "seriea", name: "Torino", city: "Turin", nickname: "Torino" },
+  { id: "seriea-udinese", league: "seriea", name: "Udinese", city: "Udine", nickname: "Udinese" },
+  { id: "seriea-genoa", league: "seriea", name: "Genoa", city: "Genoa", nickname: "Genoa" },
+  { id: "seriea-cagliari", league: "seriea", name: "Cagliari", city: "Cagliari", nickname: "Cagliari" },
+  { id: "seriea-lecce", league: "seriea", name: "Lecce", city: "Lecce", nickname: "Lecce" },
+  { id: "seriea-parma", league: "seriea", name: "Parma", city: "Parma", nickname: "Parma" },
+  { id: "seriea-como", league: "seriea", name: "Como", city: "Como", nickname: "Como" },
+  { id: "seriea-sassuolo", league: "seriea", name: "Sassuolo", city: "Sassuolo", nickname: "Sassuolo" },
+  { id: "seriea-verona", league: "seriea", name: "Hellas Verona", city: "Verona", nickname: "Verona" },
+  { id: "seriea-cremonese", league: "seriea", name: "Cremonese", city: "Cremona", nickname: "Cremonese" },
+  { id: "seriea-pisa", league: "seriea", name: "Pisa", city: "Pisa", nickname: "Pisa" },
+
+  // Ligue 1
+  { id: "ligue1-psg", league: "ligue1", name: "Paris Saint-Germain", city: "Paris", nickname: "PSG" },
+  { id: "ligue1-marseille", league: "ligue1", name: "Marseille", city: "Marseille", nickname: "Marseille" },
+  { id: "ligue1-lyon", league: "ligue1", name: "Lyon", city: "Lyon", nickname: "Lyon" },
+  { id: "ligue1-monaco", league: "ligue1", name: "AS Monaco", city: "Monaco", nickname: "Monaco" },
+  { id: "ligue1-lille", league: "ligue1", name: "Lille", city: "Lille", nickname: "Lille" },
+  { id: "ligue1-nice", league: "ligue1", name: "Nice", city: "Nice", nickname: "OGC Nice" },
+  { id: "ligue1-rennes", league: "ligue1", name: "Stade Rennais", city: "Rennes", nickname: "Rennes" },
+  { id: "ligue1-lens", league: "ligue1", name: "Lens", city: "Lens", nickname: "RC Lens" },
+  { id: "ligue1-nantes", league: "ligue1", name: "Nantes", city: "Nantes", nickname: "Nantes" },
+  { id: "ligue1-strasbourg", league: "ligue1", name: "Strasbourg", city: "Strasbourg", nickname: "Strasbourg" },
+  { id: "ligue1-toulouse", league: "ligue1", name: "Toulouse", city: "Toulouse", nickname: "Toulouse" },
+  { id: "ligue1-brest", league: "ligue1", name: "Brest", city: "Brest", nickname: "Brest" },
+  { id: "ligue1-auxerre", league: "ligue1", name: "AJ Auxerre", city: "Auxerre", nickname: "Auxerre" },
+  { id: "ligue1-angers", league: "ligue1", name: "Angers", city: "Angers", nickname: "Angers" },
+  { id: "ligue1-le-havre", league: "ligue1", name: "Le Havre AC", city: "Le Havre", nickname: "Le Havre" },
+  { id: "ligue1-lorient", league: "ligue1", name: "Lorient", city: "Lorient", nickname: "Lorient" },
+  { id: "ligue1-metz", league: "ligue1", name: "Metz", city: "Metz", nickname: "Metz" },
+  { id: "ligue1-paris-fc", league: "ligue1", name: "Paris FC", city: "Paris", nickname: "Paris FC" },
+
+  // WNBA
+  { id: "wnba-atl", league: "wnba", name: "Atlanta Dream", city: "Atlanta", nickname: "Dream", espnAbbr: "ATL" },
+  { id: "wnba-chi", league: "wnba", name: "Chicago Sky", city: "Chicago", nickname: "Sky", espnAbbr: "CHI" },
+  { id: "wnba-con", league: "wnba", name: "Connecticut Sun", city: "Connecticut", nickname: "Sun", espnAbbr: "CONN", leagueAbbr: "CON" },
+  {
+    id: "wnba-dal", league: "wnba", name: "Dallas Wings", city: "Dallas", nickname: "Wings", espnAbbr: "DAL", from: 2016,
+    history: [
+      { name: "Tulsa Shock", city: "Tulsa", nickname: "Shock", espnAbbr: "TUL", from: 2010, to: 2015 },
+      { name: "Detroit Shock", city: "Detroit", nickname: "Shock", espnAbbr: "DET", to: 2009 },
+    ],
+  },
+  { id: "wnba-gsv", league: "wnba", name: "Golden State Valkyries", city: "Golden State", nickname: "Valkyries", espnAbbr: "GS", leagueAbbr: "GSV", from: 2025 },
+  { id: "wnba-ind", league: "wnba", name: "Indiana Fever", city: "Indiana", nickname: "Fever", espnAbbr: "IND" },
+  {
+    id: "wnba-lva", league: "wnba", name: "Las Vegas Aces", city: "Las Vegas", nickname: "Aces", espnAbbr: "LV", leagueAbbr: "LVA", from: 2018,
+    history: [{ name: "San Antonio Stars", city: "San Antonio", nickname: "Stars", espnAbbr: "SA", leagueAbbr: "SAS", to: 2017 }],
+  },
+  { id: "wnba-las", league: "wnba", name: "Los Angeles Sparks", city: "Los Angeles", nickname: "Sparks", espnAbbr: "LA", leagueAbbr: "LAS" },
+  { id: "wnba-min", league: "wnba", name: "Minnesota Lynx", city: "Minnesota", nickname: "Lynx", espnAbbr: "MIN" },
+  { id: "wnba-nyl", league: "wnba", name: "New York Liberty", city: "New York", nickname: "Liberty", espnAbbr: "NY", leagueAbbr: "NYL" },
+  { id: "wnba-pho", league: "wnba", name: "Phoenix Mercury", city: "Phoenix", nickname: "Mercury", espnAbbr: "PHX", leagueAbbr: "PHO" },
+  { id: "wnba-por", league: "wnba", name: "Portland Fire", city: "Portland", nickname: "Fire", espnAbbr: "POR", from: 2026 },
+  { id: "wnba-sea", league: "wnba", name: "Seattle Storm", city: "Seattle", nickname: "Storm", espnAbbr: "SEA" },
+  { id: "wnba-tor", league: "wnba", name: "Toronto Tempo", city: "Toronto", nickname: "Tempo", espnAbbr: "TOR", from: 2026 },
+  { id: "wnba-was", league: "wnba", name: "Washington Mystics", city: "Washington", nickname: "Mystics", espnAbbr: "WSH", leagueAbbr: "WAS" },
+];
+
+// Leagues whose seasons straddle the new year; a game in January-June belongs to
+// the season that started the previous year
+const SPLIT_YEAR_LEAGUES = ["nba", "nhl", "nfl", "epl", "laliga", "bundesliga", "seriea", "ligue1", "ucl", "ncaam", "ncaaw", "ncaaf"];
+
+export function seasonForDate(league: string, date: string): number {
+  const [year, month] = date.split("-").map(Number);
+  return SPLIT_YEAR_LEAGUES.includes(league.toLowerCase()) && month < 7 ? year - 1 : year;
+}
+
+// Lowercase words with accents and punctuation dropped, e.g. "St. Louis" -> "st louis"
+export function normalizeTeamText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['.]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function slugify(text: string): string {
+  return normalizeTeamText(text).replace(/ /g, "-");
+}
+
+function coversSeason(identity: TeamIdentity, season: number): boolean {
+  return (identity.from === undefined || season >= identity.from) && (identity.to === undefined || season <= identity.to);
+}
+
+function identities(team: Team): TeamIdentity[] {
+  return [team, ...(team.history || [])];
+}
+
+// The team as it was in a season (its current identity when no season is given or none
+// covers it). A history entry with its own abbreviation was a different team code-wise,
+// so its other codes default from that abbreviation; a rename in place keeps the current codes.
+export function teamIdentity(team: Team, season?: number): ResolvedTeamIdentity {
+  const era = season === undefined ? team : team.history?.find((h) => coversSeason(h, season)) || team;
+  const ownCodes = era !== team && Boolean(era.espnAbbr || era.leagueAbbr);
+  const espnAbbr = era.espnAbbr || team.espnAbbr || "";
+  const leagueAbbr = era.leagueAbbr || (ownCodes ? espnAbbr : team.leagueAbbr || espnAbbr);
+  const sportsReferenceCode = era.sportsReferenceCode || (ownCodes ? leagueAbbr : team.sportsReferenceCode || leagueAbbr);
+
+  return {
+    name: era.name,
+    city: era.city,
+    nickname: era.nickname,
+    aliases: era.aliases || [],
+    espnAbbr,
+    leagueAbbr,
+    sportsReferenceCode,
+    mlbSlug: era.mlbSlug || slugify(era.nickname),
+    from: era.from,
+    to: era.to,
+  };
+}
+
+// Every name an identity is searched by: full name, nickname, city + nickname and aliases
+export function teamSearchNames(identity: TeamIdentity): string[] {
+  return [identity.name, identity.nickname, `${identity.city} ${identity.nickname}`, ...(identity.aliases || [])];
+}
+
+// Look a team up by ESPN or league abbreviation, name, nickname or alias. With a season,
+// identities in use that season win, so "NO" finds the Hornets in 2010 and the Pelicans now.
+export function findTeam(league: string, nameOrAbbr: string, season?: number): Team | undefined {
+  const key = normalizeTeamText(nameOrAbbr);
+  if (!key) return undefined;
+
+  const leagueTeams = TEAMS.filter((t) => t.league === league.toLowerCase());
+  const keysOf = (identity: TeamIdentity) =>
+    [...teamSearchNames(identity), identity.espnAbbr || "", identity.leagueAbbr || ""].map(normalizeTeamText);
+
+  if (season !== undefined) {
+    const current = leagueTeams.find((t) => keysOf(teamIdentity(t, season)).includes(key));
+    if (current) return current;
+  }
+  return leagueTeams.find((t) => identities(t).some((identity) => keysOf(identity).includes(key)));
+}
+
+// Teams named anywhere in free text, matched on whole words. A name inside a longer
+// match is dropped, so "Red Wings" doesn't also find the Dallas Wings and "Chicago
+// Fire" doesn't find the Portland Fire. Abbreviations are left out - "LA" or "NY"
+// would match half the registry.
+export function findTeamsInText(text: string): Team[] {
+  const words = normalizeTeamText(text).split(" ").filter(Boolean);
+  const matches: Array<{ team: Team; start: number; end: number }> = [];
+
+  for (const team of TEAMS) {
+    const names = new Set(identities(team).flatMap(teamSearchNames).map(normalizeTeamText));
+    for (const name of Array.from(names)) {
+      const nameWords = name.split(" ");
+      for (let start = 0; start + nameWords.length <= words.length; start++) {
+        if (nameWords.every((word, i) => words[start + i] === word)) {
+          matches.push({ team, start, end: start + nameWords.length });
+        }
+      }
+    }
+  }
+
+  const kept = matches.filter((m) =>
+    !matches.some((other) =>
+      other.team !== m.team &&
+      other.start <= m.start && other.end >= m.end &&
+      other.end - other.start > m.end - m.start,
+    ),
+  );
+
+  return TEAMS.filter((t) => kept.some((m) => m.team === t));
+}
+
+// Fuzzy matching for typed team names: misspellings ("Celitcs") and names close to
+// an alias. Confidence is 100 for an exact name and falls with edit distance.
+const MIN_TEAM_CONFIDENCE = 70;
+// A best match at least this confident, and this far ahead of the next team, can be
+// searched without asking
+export const CONFIDENT_TEAM_MATCH = 80;
+const CONFIDENT_TEAM_MARGIN = 10;
+// Shorter names only match exactly - one edit turns "Avs" into "Aces"
+const MIN_FUZZY_LENGTH = 4;
+// A typed word may be one edit from the name's word, or two from a word this long
+const LONG_WORD_LENGTH = 8;
+// Words typed around a team name that aren't part of it ("the celitcs")
+const FILLER_WORDS = ["the"];
+
+// Edit distance counting a swap of adjacent letters as one edit, so "celitcs" is one from "celtics"
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// How closely typed words match one normalized name, 0-100. The words have to line up
+// with the name's one for one, each a typo at most from its counterpart, so "Texas A&M"
+// isn't a misspelled "Texans" nor "Rutgers" the "Rangers".
+function nameConfidence(words: string[], name: string): number {
+  const typed = words.join(" ");
+  if (typed === name) return 100;
+
+  const nameWords = name.split(" ");
+  if (words.length !== nameWords.length || Math.min(typed.length, name.length) < MIN_FUZZY_LENGTH) return 0;
+  const typo = (word: string, nameWord: string) =>
+    editDistance(word, nameWord) <= (Math.max(word.length, nameWord.length) >= LONG_WORD_LENGTH ? 2 : 1);
+  if (!words.every((word, i) => typo(word, nameWords[i]))) return 0;
+
+  const similarity = 1 - editDistance(typed, name) / Math.max(typed.length, name.length);
+  return Math.min(99, Math.round(similarity * 100));
+}
+
+// Teams a typed name may mean, best first, one entry per team under its current name.
+// A bare place name ("Texas", "Boston") isn't treated as a misspelled nickname - it's
+// more often a college or a city with several teams - so it only matches exactly, as
+// clubs named for their city ("Liverpool") do.
+export function resolveTeamName(text: string, limit = 5): TeamCandidate[] {
+  const key = normalizeTeamText(text);
+  const words = key.split(" ").filter((word) => word && !FILLER_WORDS.includes(word));
+  if (words.length === 0) return [];
+  const placeName = TEAMS.some((team) => identities(team).some((identity) => normalizeTeamText(identity.city) === key));
+  const minConfidence = placeName ? 100 : MIN_TEAM_CONFIDENCE;
+
+  const candidates: TeamCandidate[] = [];
+  for (const team of TEAMS) {
+    let best: { name: string; confidence: number } | null = null;
+    for (const name of identities(team).flatMap(teamSearchNames)) {
+      const confidence = nameConfidence(words, normalizeTeamText(name));
+      if (!best || confidence > best.confidence) best = { name, confidence };
+    }
+    if (best && best.confidence >= minConfidence) {
+      candidates.push({ teamId: team.id, name: team.name, league: team.league, matchedName: best.name, confidence: best.confidence });
+    }
+  }
+
+  return candidates.sort((a, b) => b.confidence - a.confidence).slice(0, limit);
+}
+
+// The candidate to search as without asking, or null when the user should choose
+export function confidentTeamMatch(candidates: TeamCandidate[]): TeamCandidate | null {
+  const [best, next] = candidates;
+  if (!best || best.confidence < CONFIDENT_TEAM_MATCH) return null;
+  return !next || best.confidence - next.confidence >= CONFIDENT_TEAM_MARGIN ? best : null;
+}